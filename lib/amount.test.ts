@@ -0,0 +1,95 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { formatUnits, multiplyDecimals, parseUnits } from './amount';
+
+const invalidParam = { name: 'InvalidParamError' };
+
+describe('parseUnits', () => {
+    it('converts to base units without floating point error', () => {
+        assert.equal(parseUnits('0.1', 18), 100000000000000000n);
+        assert.equal(parseUnits('1.5', 9), 1500000000n);
+        assert.equal(parseUnits('123456789012345678901234567890', 0), 123456789012345678901234567890n);
+    });
+
+    it('handles 0, 1, 18 and 24 decimals', () => {
+        assert.equal(parseUnits('42', 0), 42n);
+        assert.equal(parseUnits('4.2', 1), 42n);
+        assert.equal(parseUnits('0.000000000000000001', 18), 1n);
+        assert.equal(parseUnits('1.000000000000000000000001', 24), 10n ** 24n + 1n);
+        assert.equal(parseUnits('0', 24), 0n);
+    });
+
+    it('accepts a missing whole part, a trailing point and trailing zeros', () => {
+        assert.equal(parseUnits('.5', 1), 5n);
+        assert.equal(parseUnits('5.', 0), 5n);
+        assert.equal(parseUnits('1.500000', 1), 15n);
+    });
+
+    it('rejects more fraction digits than the token has', () => {
+        assert.throws(() => parseUnits('1.2345678', 6), invalidParam);
+        assert.throws(() => parseUnits('0.5', 0), invalidParam);
+    });
+
+    it('rounds excess digits only when asked to', () => {
+        assert.equal(parseUnits('1.2345675', 6, 'down'), 1234567n);
+        assert.equal(parseUnits('1.2345671', 6, 'up'), 1234568n);
+        assert.equal(parseUnits('1.2345675', 6, 'half-up'), 1234568n);
+        assert.equal(parseUnits('1.2345665', 6, 'half-even'), 1234566n);
+        assert.equal(parseUnits('1.2345675', 6, 'half-even'), 1234568n);
+    });
+
+    it('rejects negative amounts', () => {
+        assert.throws(() => parseUnits('-1', 9), invalidParam);
+        assert.throws(() => parseUnits('-0.5', 9, 'down'), invalidParam);
+    });
+
+    it('rejects exponent notation and other non-decimal input', () => {
+        for (const amount of ['1e18', '1E-6', '0x10', '1,5', '', '.', 'NaN', 'Infinity', '+1', '1.2.3']) {
+            assert.throws(() => parseUnits(amount, 18), invalidParam, amount);
+        }
+    });
+
+    it('rejects invalid decimals', () => {
+        assert.throws(() => parseUnits('1', -1), invalidParam);
+        assert.throws(() => parseUnits('1', 1.5), invalidParam);
+    });
+});
+
+describe('formatUnits', () => {
+    it('formats base units with trailing zeros trimmed', () => {
+        assert.equal(formatUnits(1500000000n, 9), '1.5');
+        assert.equal(formatUnits('1000000', 6), '1');
+        assert.equal(formatUnits(1n, 18), '0.000000000000000001');
+        assert.equal(formatUnits(10n ** 24n + 1n, 24), '1.000000000000000000000001');
+        assert.equal(formatUnits(42n, 0), '42');
+        assert.equal(formatUnits(0n, 18), '0');
+    });
+
+    it('formats negative deltas', () => {
+        assert.equal(formatUnits(-1500000000n, 9), '-1.5');
+        assert.equal(formatUnits('-5', 1), '-0.5');
+    });
+
+    it('pads or rounds to the given fraction digits', () => {
+        assert.equal(formatUnits(1n, 9, { fractionDigits: 4 }), '0.0000');
+        assert.equal(formatUnits(15n, 1, { fractionDigits: 3 }), '1.500');
+        assert.equal(formatUnits(12345n, 4, { fractionDigits: 2, rounding: 'half-up' }), '1.23');
+        assert.equal(formatUnits(12355n, 4, { fractionDigits: 2, rounding: 'half-up' }), '1.24');
+    });
+
+    it('round-trips with parseUnits', () => {
+        for (const [amount, decimals] of [['0', 0], ['7', 1], ['0.1', 18], ['123.456789', 6], ['98765.432109876543210987', 24]] as const) {
+            assert.equal(formatUnits(parseUnits(amount, decimals), decimals), amount);
+        }
+        for (const [units, decimals] of [[0n, 18], [1n, 24], [10n ** 30n + 7n, 18], [999n, 1]] as const) {
+            assert.equal(parseUnits(formatUnits(units, decimals), decimals), units);
+        }
+    });
+});
+
+describe('multiplyDecimals', () => {
+    it('multiplies exactly and rounds half-up to two digits', () => {
+        assert.equal(multiplyDecimals('1.5', '187.2345'), '280.85');
+        assert.equal(multiplyDecimals('0.1', '0.2', { fractionDigits: 3 }), '0.020');
+    });
+});
@@ -0,0 +1,137 @@
+/**
+ * Exact conversion between human-readable token amounts and base units
+ *
+ * Amounts stay strings or bigints throughout, so 0.1 of an 18-decimal token
+ * or a balance beyond 2^53 converts without floating point error. Input with
+ * more fraction digits than the token supports is rejected unless a rounding
+ * mode is given.
+ */
+
+import { InvalidParamError } from './errors';
+
+export type RoundingMode = 'down' | 'up' | 'half-up' | 'half-even';
+
+export interface FormatOptions {
+    /** Fraction digits to keep; defaults to all of them, with trailing zeros trimmed */
+    fractionDigits?: number;
+    /** Applied when fractionDigits cuts off digits; defaults to 'down' */
+    rounding?: RoundingMode;
+}
+
+// Exact decimal value: digits / 10^scale
+interface Decimal {
+    digits: bigint;
+    scale: number;
+}
+
+const DECIMAL_PATTERN = /^(-)?(\d*)(?:\.(\d*))?$/;
+
+/**
+ * Converts a human amount such as "1.5" to base units, e.g. 1500000000n for
+ * 9 decimals. Without a rounding mode, excess fraction digits throw, and so
+ * do negative amounts.
+ */
+export function parseUnits(amount: string, decimals: number, rounding?: RoundingMode): bigint {
+    assertDecimals(decimals);
+    const value = parseDecimal(amount);
+    if (value.digits < 0n) {
+        throw new InvalidParamError(`Amount ${amount} must not be negative`);
+    }
+    return toUnits(value, amount, decimals, rounding);
+}
+
+/** Converts base units back to a human amount, e.g. "1.5" for 1500000000n and 9 decimals */
+export function formatUnits(value: bigint | string, decimals: number, options: FormatOptions = {}): string {
+    assertDecimals(decimals);
+    // Deltas are formatted too, so negative base units are fine here
+    const units = typeof value === 'bigint' ? value : toUnits(parseDecimal(value), value, 0);
+    return formatDecimal({ digits: units, scale: decimals }, options);
+}
+
+/**
+ * Multiplies two decimal strings exactly, e.g. an amount by a unit price for
+ * the USD value of a trade. Rounds half-up to two digits unless told otherwise.
+ */
+export function multiplyDecimals(a: string, b: string, options: FormatOptions = {}): string {
+    const left = parseDecimal(a);
+    const right = parseDecimal(b);
+    return formatDecimal(
+        { digits: left.digits * right.digits, scale: left.scale + right.scale },
+        { fractionDigits: 2, rounding: 'half-up', ...options }
+    );
+}
+
+function toUnits(value: Decimal, amount: string, decimals: number, rounding?: RoundingMode): bigint {
+    // Trailing zeros are not excess precision
+    while (value.scale > decimals && value.digits % 10n === 0n) {
+        value.digits /= 10n;
+        value.scale--;
+    }
+    if (value.scale > decimals && !rounding) {
+        throw new InvalidParamError(`Amount ${amount} has more than ${decimals} decimal places`);
+    }
+    return rescale(value, decimals, rounding ?? 'down');
+}
+
+function parseDecimal(amount: string): Decimal {
+    const match = DECIMAL_PATTERN.exec(amount.trim());
+    if (!match || (!match[2] && !match[3])) {
+        throw new InvalidParamError(`Invalid amount "${amount}": expected a decimal number such as 1.5`);
+    }
+    const [, sign, whole, fraction = ''] = match;
+    const digits = BigInt((whole || '0') + fraction);
+    return { digits: sign ? -digits : digits, scale: fraction.length };
+}
+
+function formatDecimal(value: Decimal, options: FormatOptions): string {
+    let { digits, scale } = value;
+    if (options.fractionDigits !== undefined && options.fractionDigits < scale) {
+        digits = rescale(value, options.fractionDigits, options.rounding ?? 'down');
+        scale = options.fractionDigits;
+    }
+
+    const negative = digits < 0n;
+    const text = (negative ? -digits : digits).toString().padStart(scale + 1, '0');
+    const whole = text.slice(0, text.length - scale);
+    let fraction = text.slice(text.length - scale);
+
+    if (options.fractionDigits === undefined) {
+        fraction = fraction.replace(/0+$/, '');
+    } else {
+        fraction = fraction.padEnd(options.fractionDigits, '0');
+    }
+
+    const sign = negative ? '-' : '';
+    return fraction ? `${sign}${whole}.${fraction}` : `${sign}${whole}`;
+}
+
+// Returns value * 10^scale as an integer, rounding away the remaining digits
+function rescale(value: Decimal, scale: number, rounding: RoundingMode): bigint {
+    if (value.scale <= scale) {
+        return value.digits * 10n ** BigInt(scale - value.scale);
+    }
+    return divide(value.digits, 10n ** BigInt(value.scale - scale), rounding);
+}
+
+function divide(numerator: bigint, denominator: bigint, rounding: RoundingMode): bigint {
+    const negative = numerator < 0n;
+    const magnitude = negative ? -numerator : numerator;
+    let quotient = magnitude / denominator;
+    const remainder = magnitude % denominator;
+
+    if (remainder !== 0n) {
+        const twice = remainder * 2n;
+        const roundAway =
+            rounding === 'up' ||
+            (rounding === 'half-up' && twice >= denominator) ||
+            (rounding === 'half-even' && (twice > denominator || (twice === denominator && quotient % 2n === 1n)));
+        if (roundAway) quotient += 1n;
+    }
+    return negative ? -quotient : quotient;
+}
+
+function assertDecimals(decimals: number): void {
+    if (!Number.isInteger(decimals) || decimals < 0) {
+        throw new InvalidParamError(`Invalid token decimals ${decimals}`);
+    }
+}
@@ -0,0 +1,87 @@
+// TTL expiry and key isolation of the cache stores, on a fake clock
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import { CacheStore, FileCache, MemoryCache } from './cache';
+
+function behavesAsTtlCache(create: () => CacheStore) {
+    it('returns entries until their TTL runs out', async () => {
+        const cache = create();
+        await cache.set('chains', [{ chainId: '1' }], 1_000);
+        assert.deepEqual(await cache.get('chains'), [{ chainId: '1' }]);
+
+        mock.timers.tick(999);
+        assert.deepEqual(await cache.get('chains'), [{ chainId: '1' }]);
+        mock.timers.tick(1);
+        assert.equal(await cache.get('chains'), undefined);
+    });
+
+    it('keeps keys apart', async () => {
+        const cache = create();
+        await cache.set('tokens?chainId=1', ['ETH'], 1_000);
+        await cache.set('tokens?chainId=56', ['BNB'], 5_000);
+        assert.deepEqual(await cache.get('tokens?chainId=1'), ['ETH']);
+        assert.deepEqual(await cache.get('tokens?chainId=56'), ['BNB']);
+        assert.equal(await cache.get('tokens?chainId=10'), undefined);
+
+        mock.timers.tick(1_000);
+        assert.equal(await cache.get('tokens?chainId=1'), undefined);
+        assert.deepEqual(await cache.get('tokens?chainId=56'), ['BNB']);
+
+        await cache.delete('tokens?chainId=56');
+        assert.equal(await cache.get('tokens?chainId=56'), undefined);
+    });
+
+    it('forgets everything on clear', async () => {
+        const cache = create();
+        await cache.set('a', 1, 1_000);
+        await cache.set('b', 2, 1_000);
+        await cache.clear();
+        assert.equal(await cache.get('a'), undefined);
+        assert.equal(await cache.get('b'), undefined);
+    });
+}
+
+describe('MemoryCache', () => {
+    beforeEach(() => mock.timers.enable({ apis: ['Date'], now: 0 }));
+    afterEach(() => mock.timers.reset());
+
+    behavesAsTtlCache(() => new MemoryCache());
+});
+
+describe('FileCache', () => {
+    let directory: string;
+
+    beforeEach(() => {
+        mock.timers.enable({ apis: ['Date'], now: 0 });
+        directory = fs.mkdtempSync(path.join(os.tmpdir(), 'okx-dex-cache-'));
+    });
+    afterEach(() => {
+        mock.timers.reset();
+        fs.rmSync(directory, { recursive: true, force: true });
+    });
+
+    behavesAsTtlCache(() => new FileCache(directory));
+
+    it('shares unexpired entries with other instances through disk', async () => {
+        await new FileCache(directory).set('bridges', ['OKX Bridge'], 1_000);
+        assert.deepEqual(await new FileCache(directory).get('bridges'), ['OKX Bridge']);
+
+        mock.timers.tick(1_000);
+        assert.equal(await new FileCache(directory).get('bridges'), undefined);
+    });
+
+    it('reports write failures to the logger and still serves from memory', async () => {
+        const messages: string[] = [];
+        const blocked = path.join(directory, 'not-a-directory');
+        fs.writeFileSync(blocked, '');
+        const cache = new FileCache(blocked, { warn: message => { messages.push(message); } });
+
+        await cache.set('chains', ['1'], 1_000);
+        assert.deepEqual(await cache.get('chains'), ['1']);
+        assert.equal(messages.length, 1);
+        assert.match(messages[0], /^Could not write cache entry to .*not-a-directory: /);
+    });
+});
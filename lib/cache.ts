@@ -0,0 +1,158 @@
+/**
+ * TTL cache for slow-changing API responses
+ *
+ * Supported chains, token lists, liquidity sources and bridge metadata rarely
+ * change, so OkxDexClient keeps them in a cache store instead of refetching
+ * them on every run. The shared store is on disk by default, which lets every
+ * script and chain module reuse metadata fetched by another.
+ *
+ * OKX_DEX_CACHE selects the shared store (`disk`, `memory` or `off`) and
+ * OKX_DEX_CACHE_DIR its directory (default ~/.cache/okx-dex).
+ */
+
+import crypto from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ENDPOINTS } from './endpoints';
+import { Logger, silentLogger } from './logger';
+
+export interface CacheStore {
+    get<T>(key: string): Promise<T | undefined>;
+    set<T>(key: string, value: T, ttlMs: number): Promise<void>;
+    delete(key: string): Promise<void>;
+    clear(): Promise<void>;
+}
+
+interface CacheEntry {
+    key: string;
+    value: unknown;
+    expiresAt: number;
+}
+
+/** Cache key prefix for per-token symbol and decimals */
+export const TOKEN_METADATA_KEY = 'token-metadata';
+
+/** Time to live per request path (or TOKEN_METADATA_KEY); paths not listed are never cached */
+export const DEFAULT_CACHE_TTLS: Record<string, number> = {
+    [ENDPOINTS.SUPPORTED_CHAIN]: 24 * 60 * 60_000,
+    [ENDPOINTS.SUPPORTED_BRIDGES]: 24 * 60 * 60_000,
+    [ENDPOINTS.ALL_TOKENS]: 6 * 60 * 60_000,
+    [ENDPOINTS.LIQUIDITY]: 6 * 60 * 60_000,
+    [ENDPOINTS.BRIDGE_TOKENS]: 6 * 60 * 60_000,
+    [TOKEN_METADATA_KEY]: 7 * 24 * 60 * 60_000,
+};
+
+// =================
+// Stores
+// =================
+
+export class MemoryCache implements CacheStore {
+    private readonly entries = new Map<string, CacheEntry>();
+
+    async get<T>(key: string): Promise<T | undefined> {
+        const entry = this.entries.get(key);
+        if (!entry) return undefined;
+        if (entry.expiresAt <= Date.now()) {
+            this.entries.delete(key);
+            return undefined;
+        }
+        return entry.value as T;
+    }
+
+    async set<T>(key: string, value: T, ttlMs: number): Promise<void> {
+        this.entries.set(key, { key, value, expiresAt: Date.now() + ttlMs });
+    }
+
+    async delete(key: string): Promise<void> {
+        this.entries.delete(key);
+    }
+
+    async clear(): Promise<void> {
+        this.entries.clear();
+    }
+}
+
+/**
+ * Stores one JSON file per key, with an in-memory layer in front. Disk
+ * failures are reported to the logger and treated as misses so a broken
+ * cache never fails a request.
+ */
+export class FileCache implements CacheStore {
+    private readonly memory = new MemoryCache();
+
+    constructor(readonly directory: string, public logger: Logger = silentLogger) {}
+
+    async get<T>(key: string): Promise<T | undefined> {
+        const cached = await this.memory.get<T>(key);
+        if (cached !== undefined) return cached;
+
+        let entry: CacheEntry;
+        try {
+            entry = JSON.parse(await fs.promises.readFile(this.fileFor(key), 'utf8'));
+        } catch {
+            return undefined;
+        }
+        // Hash collisions and expired entries are both misses
+        if (entry.key !== key || entry.expiresAt <= Date.now()) return undefined;
+
+        await this.memory.set(key, entry.value, entry.expiresAt - Date.now());
+        return entry.value as T;
+    }
+
+    async set<T>(key: string, value: T, ttlMs: number): Promise<void> {
+        await this.memory.set(key, value, ttlMs);
+        const entry: CacheEntry = { key, value, expiresAt: Date.now() + ttlMs };
+        try {
+            await fs.promises.mkdir(this.directory, { recursive: true });
+            await fs.promises.writeFile(this.fileFor(key), JSON.stringify(entry));
+        } catch (error) {
+            this.logger.warn(`Could not write cache entry to ${this.directory}: ${error instanceof Error ? error.message : error}`);
+        }
+    }
+
+    async delete(key: string): Promise<void> {
+        await this.memory.delete(key);
+        await fs.promises.rm(this.fileFor(key), { force: true });
+    }
+
+    async clear(): Promise<void> {
+        await this.memory.clear();
+        await fs.promises.rm(this.directory, { recursive: true, force: true });
+    }
+
+    private fileFor(key: string): string {
+        const hash = crypto.createHash('sha256').update(key).digest('hex').slice(0, 32);
+        return path.join(this.directory, `${hash}.json`);
+    }
+}
+
+// =================
+// Shared Store
+// =================
+
+let sharedCache: CacheStore | null | undefined;
+
+/**
+ * Store used by clients created without their own, configured from
+ * OKX_DEX_CACHE and OKX_DEX_CACHE_DIR; undefined when caching is off.
+ */
+export function getSharedCache(env: NodeJS.ProcessEnv = process.env): CacheStore | undefined {
+    if (sharedCache === undefined) {
+        const mode = env.OKX_DEX_CACHE ?? 'disk';
+        switch (mode) {
+            case 'off':
+                sharedCache = null;
+                break;
+            case 'memory':
+                sharedCache = new MemoryCache();
+                break;
+            case 'disk':
+                sharedCache = new FileCache(env.OKX_DEX_CACHE_DIR ?? path.join(os.homedir(), '.cache', 'okx-dex'));
+                break;
+            default:
+                throw new Error(`OKX_DEX_CACHE must be "disk", "memory" or "off", got "${mode}"`);
+        }
+    }
+    return sharedCache ?? undefined;
+}
@@ -0,0 +1,120 @@
+// Replays the recorded fixtures through the example scripts, offline and without API keys
+import assert from 'node:assert/strict';
+import { execFile } from 'node:child_process';
+import fs from 'node:fs';
+import path from 'node:path';
+import { describe, it } from 'node:test';
+import { promisify } from 'node:util';
+import { Cassette } from './cassette';
+
+const ROOT = path.resolve(__dirname, '..');
+const FIXTURES = path.join(ROOT, 'fixtures');
+
+// The fixtures were recorded against the mock server on the `local` profile
+const REPLAY_ENV: NodeJS.ProcessEnv = {
+    PATH: process.env.PATH,
+    OKX_DEX_ENV: 'local',
+    OKX_DEX_CASSETTE_MODE: 'replay',
+    OKX_DEX_OUTPUT: 'json',
+    OKX_DEX_CACHE: 'off',
+};
+
+async function replay(script: string, fixture: string): Promise<any> {
+    const { stdout } = await promisify(execFile)(
+        process.execPath,
+        ['--require', 'ts-node/register/transpile-only', path.join(ROOT, 'lib', script)],
+        { cwd: ROOT, env: { ...REPLAY_ENV, OKX_DEX_CASSETTE: path.join(FIXTURES, fixture) }, timeout: 60_000 }
+    );
+    // Progress lines come before the JSON output
+    return JSON.parse(stdout.slice(stdout.search(/[[{]$/m)));
+}
+
+describe('cassette replay', () => {
+    it('replays an EVM quote', async () => {
+        const [quote] = await replay('evm/swap/evm-quote.ts', 'evm-quote.json');
+        assert.equal(quote.fromToken.tokenSymbol, 'ETH');
+        assert.equal(quote.toToken.tokenSymbol, 'USDT');
+        assert.equal(quote.toTokenAmount, '31489765432');
+    });
+
+    it('replays EVM swap data', async () => {
+        const [swap] = await replay('evm/swap/evm-swap-data.ts', 'evm-swap-data.json');
+        assert.equal(swap.routerResult.fromTokenAmount, '10000000000000000000');
+        assert.equal(swap.tx.from, '0x9163756d2a83a334de2cc0c3aa1df9a5fc21369d');
+        assert.equal(swap.tx.minReceiveAmount, '31174867777');
+    });
+
+    it('replays an EVM cross-chain quote', async () => {
+        const [quote] = await replay('evm/cross-chain/evm-cross-chain-quote.ts', 'evm-cross-chain-quote.json');
+        assert.equal(quote.toChainId, '196');
+        assert.equal(quote.routerList[0].router.bridgeName, 'OKX Bridge');
+    });
+
+    it('replays Solana quote, swap data and cross-chain quote', async () => {
+        const [quote] = await replay('solana/swap/solana-quote.ts', 'solana-quote.json');
+        assert.equal(quote.toToken.tokenSymbol, 'USDC');
+        assert.equal(quote.toTokenAmount, '1872158342');
+
+        const [swap] = await replay('solana/swap/solana-swap-data.ts', 'solana-swap-data.json');
+        assert.equal(swap.tx.from, 'HghFVR3KBYcbgh63cJYmCCu9mzUYMYQRPT5aMrCutMct');
+        assert.equal(swap.tx.minReceiveAmount, '1853436758');
+
+        const [crossChain] = await replay('solana/cross-chain/solana-cross-chain-quote.ts', 'solana-cross-chain-quote.json');
+        assert.equal(crossChain.fromChainId, '501');
+        assert.equal(crossChain.routerList[0].router.bridgeName, 'Wormhole');
+    });
+
+    it('replays Sui quote, swap data and cross-chain quote', async () => {
+        const [quote] = await replay('sui/swap/sui-quote.ts', 'sui-quote.json');
+        assert.equal(quote.fromToken.tokenContractAddress, '0x2::sui::SUI');
+        assert.equal(quote.toTokenAmount, '35398765');
+
+        const [swap] = await replay('sui/swap/sui-swap-data.ts', 'sui-swap-data.json');
+        assert.equal(swap.tx.from, '0xac5bceec1b789ff840d7d4e6ce4ce61c90d190a7f8c4f4ddf0bff6ee2413c33c');
+        assert.equal(swap.tx.minReceiveAmount, '35044777');
+
+        const [crossChain] = await replay('sui/cross-chain/sui-cross-chain-quote.ts', 'sui-cross-chain-quote.json');
+        assert.equal(crossChain.fromChainId, '784');
+        assert.equal(crossChain.routerList[0].minimumReceived, '34234597');
+    });
+
+    it('replays TON quote and swap data', async () => {
+        const [quote] = await replay('ton/swap/ton-quote.ts', 'ton-quote.json');
+        assert.equal(quote.fromToken.tokenSymbol, 'TON');
+        assert.equal(quote.toTokenAmount, '52843216');
+
+        const [swap] = await replay('ton/swap/ton-swap-data.ts', 'ton-swap-data.json');
+        assert.equal(swap.tx.from, 'UQA88qDUSmU9QpYYOwlwKZ1rmrSPEKVus0zLX56FJxD1cd6l');
+        assert.equal(swap.tx.minReceiveAmount, '52314783');
+    });
+
+    it('replays Tron quote and swap data', async () => {
+        const [quote] = await replay('tron/swap/tron-quote.ts', 'tron-quote.json');
+        assert.equal(quote.toToken.tokenSymbol, 'USDT');
+        assert.equal(quote.toTokenAmount, '2394612000');
+
+        const [swap] = await replay('tron/swap/tron-swap-data.ts', 'tron-swap-data.json');
+        assert.equal(swap.tx.from, 'TKKfuzgajEECM93gVwUEqmeNTsMTZ2JEuq');
+        assert.equal(swap.tx.minReceiveAmount, '2370665880');
+    });
+
+    it('keeps no credentials in the fixtures', () => {
+        for (const name of fs.readdirSync(FIXTURES)) {
+            const { interactions } = JSON.parse(fs.readFileSync(path.join(FIXTURES, name), 'utf8'));
+            assert.ok(interactions.length > 0, `${name} has no interactions`);
+            for (const { request } of interactions) {
+                for (const [header, value] of Object.entries(request.headers)) {
+                    if (header.startsWith('ok-access-')) assert.equal(value, '[REDACTED]', `${name}: ${header}`);
+                }
+            }
+        }
+    });
+
+    it('fails on a request missing from the fixture', async () => {
+        const fetchFn = new Cassette(path.join(FIXTURES, 'evm-quote.json')).wrap();
+        await assert.rejects(
+            fetchFn('http://127.0.0.1:8080/api/v5/dex/aggregator/quote?chainId=56'),
+            /No recorded response for GET/
+        );
+    });
+});
@@ -0,0 +1,211 @@
+/**
+ * Record/replay of HTTP traffic for offline runs
+ *
+ * In record mode a cassette passes requests through to the network and writes
+ * each request/response pair to a JSON fixture, with credentials and
+ * signatures scrubbed. In replay mode it serves the recorded responses back
+ * without touching the network, so scripts and flows can run in CI.
+ *
+ * Clients pick up a cassette from OKX_DEX_CASSETTE (fixture path) and
+ * OKX_DEX_CASSETTE_MODE (`record` or `replay`, default `replay`). Any other
+ * fetch-based transport, such as a Solana Connection, can be wrapped with
+ * `cassette.wrap(fetch)`.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { OkxCredentials } from './credentials';
+
+export type CassetteMode = 'record' | 'replay';
+
+export interface RecordedRequest {
+    method: string;
+    url: string;
+    headers: Record<string, string>;
+    body?: string;
+}
+
+export interface RecordedResponse {
+    status: number;
+    headers: Record<string, string>;
+    body: string;
+}
+
+export interface Interaction {
+    request: RecordedRequest;
+    response: RecordedResponse;
+}
+
+interface CassetteFile {
+    version: 1;
+    interactions: Interaction[];
+}
+
+/** Signs replayed requests when no real credentials are configured */
+export const PLACEHOLDER_CREDENTIALS: OkxCredentials = {
+    apiKey: 'replay-api-key',
+    secretKey: 'replay-secret-key',
+    passphrase: 'replay-passphrase',
+    projectId: 'replay-project-id',
+};
+
+const REDACTED = '[REDACTED]';
+
+// Request headers that carry secrets or vary on every request
+const SCRUBBED_REQUEST_HEADERS = new Set([
+    'ok-access-key',
+    'ok-access-sign',
+    'ok-access-timestamp',
+    'ok-access-passphrase',
+    'ok-access-project',
+    'authorization',
+    'cookie',
+]);
+
+// Response headers worth keeping; Date is dropped so replays do not skew the clock
+const RECORDED_RESPONSE_HEADERS = new Set(['content-type']);
+
+export class Cassette {
+    private loading?: Promise<Interaction[]>;
+    private readonly used = new Set<number>();
+    private writing: Promise<void> = Promise.resolve();
+
+    constructor(
+        readonly filePath: string,
+        readonly mode: CassetteMode = 'replay'
+    ) {}
+
+    /** Returns a fetch that records through `fetchFn` or replays from the fixture */
+    wrap(fetchFn: typeof fetch = fetch): typeof fetch {
+        return async (input, init = {}) => {
+            const request = toRecordedRequest(input, init);
+            return this.mode === 'replay'
+                ? this.replay(request)
+                : this.record(request, await fetchFn(input, init));
+        };
+    }
+
+    private async replay(request: RecordedRequest): Promise<Response> {
+        const interactions = await this.load();
+        const matches = interactions
+            .map((interaction, index) => ({ interaction, index }))
+            .filter(({ interaction }) => matchesRequest(interaction.request, request));
+
+        if (matches.length === 0) {
+            throw new Error(`No recorded response for ${request.method} ${request.url} in ${this.filePath}`);
+        }
+
+        // Identical requests get the recorded responses in order, then the last one repeats
+        const match = matches.find(({ index }) => !this.used.has(index)) ?? matches[matches.length - 1];
+        this.used.add(match.index);
+
+        const { status, headers, body } = match.interaction.response;
+        return new Response(body, { status, headers });
+    }
+
+    private async record(request: RecordedRequest, response: Response): Promise<Response> {
+        const body = await response.text();
+        const headers: Record<string, string> = {};
+        response.headers.forEach((value, name) => {
+            if (RECORDED_RESPONSE_HEADERS.has(name.toLowerCase())) headers[name.toLowerCase()] = value;
+        });
+
+        const interactions = await this.load();
+        interactions.push({ request, response: { status: response.status, headers, body } });
+        await this.save(interactions);
+
+        // The original body has been consumed, so hand the caller a copy
+        return new Response(body, {
+            status: response.status,
+            statusText: response.statusText,
+            headers: response.headers
+        });
+    }
+
+    private load(): Promise<Interaction[]> {
+        if (!this.loading) {
+            this.loading = this.readFile();
+        }
+        return this.loading;
+    }
+
+    private async readFile(): Promise<Interaction[]> {
+        // A new recording replaces the old one rather than appending to it
+        if (this.mode === 'record') return [];
+
+        let file: CassetteFile;
+        try {
+            file = JSON.parse(await fs.promises.readFile(this.filePath, 'utf8'));
+        } catch (error) {
+            throw new Error(`Could not read cassette ${this.filePath}: ${(error as Error).message}`);
+        }
+        if (!Array.isArray(file?.interactions)) {
+            throw new Error(`Cassette ${this.filePath} has no interactions list`);
+        }
+        return file.interactions;
+    }
+
+    private save(interactions: Interaction[]): Promise<void> {
+        const file: CassetteFile = { version: 1, interactions };
+        // Chained so concurrent requests never interleave writes
+        this.writing = this.writing.then(async () => {
+            await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+            await fs.promises.writeFile(this.filePath, JSON.stringify(file, null, 2) + '\n');
+        });
+        return this.writing;
+    }
+}
+
+const cassettes = new Map<string, Cassette>();
+
+/**
+ * Returns the cassette configured by OKX_DEX_CASSETTE, shared by every client
+ * in the process so their interactions land in one fixture.
+ */
+export function cassetteFromEnv(env: NodeJS.ProcessEnv = process.env): Cassette | undefined {
+    const filePath = env.OKX_DEX_CASSETTE;
+    if (!filePath) return undefined;
+
+    const mode = env.OKX_DEX_CASSETTE_MODE ?? 'replay';
+    if (mode !== 'record' && mode !== 'replay') {
+        throw new Error(`OKX_DEX_CASSETTE_MODE must be "record" or "replay", got "${mode}"`);
+    }
+
+    const key = `${mode}:${path.resolve(filePath)}`;
+    if (!cassettes.has(key)) {
+        cassettes.set(key, new Cassette(filePath, mode));
+    }
+    return cassettes.get(key);
+}
+
+function toRecordedRequest(input: RequestInfo | URL, init: RequestInit): RecordedRequest {
+    const url = typeof input === 'string' ? input : input instanceof URL ? input.href : input.url;
+    const headers: Record<string, string> = {};
+    new Headers(init.headers).forEach((value, name) => {
+        headers[name] = SCRUBBED_REQUEST_HEADERS.has(name) ? REDACTED : value;
+    });
+
+    return {
+        method: (init.method ?? 'GET').toUpperCase(),
+        url,
+        headers,
+        body: typeof init.body === 'string' ? init.body : undefined,
+    };
+}
+
+function matchesRequest(recorded: RecordedRequest, request: RecordedRequest): boolean {
+    return recorded.method === request.method &&
+        recorded.url === request.url &&
+        normalizeBody(recorded.body) === normalizeBody(request.body);
+}
+
+// JSON-RPC clients number their requests, so ids are ignored when matching
+function normalizeBody(body = ''): string {
+    try {
+        const payload = JSON.parse(body);
+        const strip = (call: any) => call?.jsonrpc ? { ...call, id: undefined } : call;
+        return JSON.stringify(Array.isArray(payload) ? payload.map(strip) : strip(payload));
+    } catch {
+        return body;
+    }
+}
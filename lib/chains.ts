@@ -0,0 +1,174 @@
+/**
+ * Registry of the chains used by this library
+ *
+ * Holds the OKX chain ID, native token sentinel, wrapped native token,
+ * explorer links and address format of each chain, so chain modules look
+ * them up instead of repeating magic strings.
+ */
+
+import { InvalidParamError } from './errors';
+
+export type ChainFamily = 'evm' | 'solana' | 'sui' | 'ton' | 'tron';
+
+export interface ChainInfo {
+    /** Chain ID used by the OKX DEX API */
+    chainId: string;
+    name: string;
+    family: ChainFamily;
+    nativeSymbol: string;
+    /** Address the OKX API uses for the native token */
+    nativeTokenAddress: string;
+    wrappedNativeAddress?: string;
+    nativeDecimals: number;
+    /** Explorer URL templates with `{hash}` and `{address}` placeholders */
+    explorer: {
+        tx: string;
+        address: string;
+    };
+}
+
+const ADDRESS_PATTERNS: Record<ChainFamily, RegExp> = {
+    evm: /^0x[0-9a-fA-F]{40}$/,
+    solana: /^[1-9A-HJ-NP-Za-km-z]{32,44}$/,
+    // Accounts as well as coin types such as 0x2::sui::SUI
+    sui: /^0x[0-9a-fA-F]{1,64}(::\w+::\w+)?$/,
+    // Raw (workchain:hex) or user-friendly base64 form
+    ton: /^(-1|0):[0-9a-fA-F]{64}$|^[A-Za-z0-9_+/-]{48}$/,
+    tron: /^T[1-9A-HJ-NP-Za-km-z]{33}$/,
+};
+
+const EVM_NATIVE_TOKEN = '0xEeeeeEeeeEeEeeEeEeEeeEEEeeeeEeeeeeeeEEeE';
+
+export const CHAINS = {
+    ETHEREUM: {
+        chainId: '1',
+        name: 'Ethereum',
+        family: 'evm',
+        nativeSymbol: 'ETH',
+        nativeTokenAddress: EVM_NATIVE_TOKEN,
+        wrappedNativeAddress: '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2',
+        nativeDecimals: 18,
+        explorer: {
+            tx: 'https://etherscan.io/tx/{hash}',
+            address: 'https://etherscan.io/address/{address}',
+        },
+    },
+    XLAYER: {
+        chainId: '196',
+        name: 'X Layer',
+        family: 'evm',
+        nativeSymbol: 'OKB',
+        nativeTokenAddress: EVM_NATIVE_TOKEN,
+        wrappedNativeAddress: '0xe538905cf8410324e03A5A23C1c177a474D59b2b',
+        nativeDecimals: 18,
+        explorer: {
+            tx: 'https://www.oklink.com/xlayer/tx/{hash}',
+            address: 'https://www.oklink.com/xlayer/address/{address}',
+        },
+    },
+    SOLANA: {
+        chainId: '501',
+        name: 'Solana',
+        family: 'solana',
+        nativeSymbol: 'SOL',
+        nativeTokenAddress: '11111111111111111111111111111111',
+        wrappedNativeAddress: 'So11111111111111111111111111111111111111112',
+        nativeDecimals: 9,
+        explorer: {
+            tx: 'https://solscan.io/tx/{hash}',
+            address: 'https://solscan.io/account/{address}',
+        },
+    },
+    SUI: {
+        chainId: '784',
+        name: 'Sui',
+        family: 'sui',
+        nativeSymbol: 'SUI',
+        nativeTokenAddress: '0x2::sui::SUI',
+        nativeDecimals: 9,
+        explorer: {
+            tx: 'https://suiscan.xyz/mainnet/tx/{hash}',
+            address: 'https://suiscan.xyz/mainnet/account/{address}',
+        },
+    },
+    TON: {
+        chainId: '607',
+        name: 'TON',
+        family: 'ton',
+        nativeSymbol: 'TON',
+        nativeTokenAddress: 'EQAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAM9c',
+        nativeDecimals: 9,
+        explorer: {
+            tx: 'https://tonviewer.com/transaction/{hash}',
+            address: 'https://tonviewer.com/{address}',
+        },
+    },
+    TRON: {
+        chainId: '195',
+        name: 'TRON',
+        family: 'tron',
+        nativeSymbol: 'TRX',
+        nativeTokenAddress: 'T9yD14Nj9j7xAB4dbGeiX9h8unkKHxuWwb',
+        wrappedNativeAddress: 'TNUC9Qb1rRpS5CbWLmNMxXBjyFoydXjWFR',
+        nativeDecimals: 6,
+        explorer: {
+            tx: 'https://tronscan.org/#/transaction/{hash}',
+            address: 'https://tronscan.org/#/address/{address}',
+        },
+    },
+} as const satisfies Record<string, ChainInfo>;
+
+const registry = new Map<string, ChainInfo>(
+    Object.values(CHAINS).map(chain => [chain.chainId, chain])
+);
+
+/** Adds or replaces a chain, e.g. another EVM network */
+export function registerChain(chain: ChainInfo): void {
+    registry.set(chain.chainId, chain);
+}
+
+export function listChains(): ChainInfo[] {
+    return [...registry.values()];
+}
+
+export function getChain(chainId: string): ChainInfo {
+    const chain = registry.get(chainId);
+    if (!chain) {
+        throw new InvalidParamError(`Unknown chain ID ${chainId} (known: ${[...registry.keys()].join(', ')})`);
+    }
+    return chain;
+}
+
+/** Looks a chain up by ID or case-insensitive name, e.g. "501", "solana" or "xlayer" */
+export function findChain(query: string): ChainInfo {
+    const key = (name: string) => name.toLowerCase().replace(/[\s_-]/g, '');
+    const chain = registry.get(query) ??
+        [...registry.values()].find(entry => key(entry.name) === key(query));
+    if (!chain) {
+        throw new InvalidParamError(
+            `Unknown chain ${query} (known: ${listChains().map(entry => `${entry.name} (${entry.chainId})`).join(', ')})`
+        );
+    }
+    return chain;
+}
+
+export function isNativeToken(chainId: string, tokenAddress: string): boolean {
+    return normalizeAddress(getChain(chainId).nativeTokenAddress) === normalizeAddress(tokenAddress);
+}
+
+/** Comparable form of an address: EVM addresses are case-insensitive; Solana, Sui and TON addresses are not */
+export function normalizeAddress(address: string): string {
+    return ADDRESS_PATTERNS.evm.test(address) ? address.toLowerCase() : address;
+}
+
+export function isValidAddress(chainId: string, address: string): boolean {
+    return ADDRESS_PATTERNS[getChain(chainId).family].test(address);
+}
+
+export function explorerTxUrl(chainId: string, hash: string): string {
+    return getChain(chainId).explorer.tx.replace('{hash}', hash);
+}
+
+export function explorerAddressUrl(chainId: string, address: string): string {
+    return getChain(chainId).explorer.address.replace('{address}', address);
+}
@@ -0,0 +1,78 @@
+/**
+ * Helpers shared by the okx-dex subcommands
+ */
+
+import { Command, InvalidArgumentError } from 'commander';
+import { OkxDexClient } from '../client';
+import { serverClock } from '../clock';
+import { FileCache, getSharedCache } from '../cache';
+import { ChainInfo, findChain } from '../chains';
+import { TokenEntry, TokenRegistry } from '../token-registry';
+import { parseUnits } from '../amount';
+import { OutputFormat, OutputSpec, printOutput, resolveOutputFormat } from '../output';
+import { Profile, loadProfile } from '../config';
+import { InvalidParamError } from '../errors';
+
+export interface GlobalOptions {
+    /** Environment profile name, see environments.ts */
+    env?: string;
+    output?: string;
+    /** .okxdexrc profile name, see config.ts */
+    profile?: string;
+}
+
+export interface CliContext {
+    client: OkxDexClient;
+    tokens: TokenRegistry;
+    output: OutputFormat;
+    profile: Profile;
+}
+
+/** Client, token registry, output format and settings profile for a command, configured from the global options */
+export function createContext(command: Command): CliContext {
+    const { env, output, profile } = command.optsWithGlobals<GlobalOptions>();
+    serverClock.logger = console;
+    const client = new OkxDexClient({ environment: env, logger: console });
+    const cache = getSharedCache();
+    if (cache instanceof FileCache) cache.logger = console;
+    return {
+        client,
+        tokens: new TokenRegistry(client),
+        output: resolveOutputFormat(output),
+        profile: loadProfile(profile),
+    };
+}
+
+/** commander argument parser for chain options: an ID or a name such as "solana" */
+export function parseChain(value: string): ChainInfo {
+    try {
+        return findChain(value);
+    } catch (error) {
+        throw new InvalidArgumentError((error as Error).message);
+    }
+}
+
+/** commander argument parser for numeric options such as limits */
+export function parseNumber(value: string): number {
+    const number = Number(value);
+    if (value.trim() === '' || !Number.isFinite(number) || number < 0) {
+        throw new InvalidArgumentError(`Expected a non-negative number, got "${value}"`);
+    }
+    return number;
+}
+
+/**
+ * Converts an --amount value to base units: a human amount in the token's
+ * decimals, or an integer that already is in base units.
+ */
+export function toBaseUnits(amount: string, token: TokenEntry, baseUnits = false): string {
+    const value = parseUnits(amount, baseUnits ? 0 : token.decimals);
+    if (value <= 0n) {
+        throw new InvalidParamError('Amount must be greater than 0');
+    }
+    return value.toString();
+}
+
+export function printData<T, R>(context: CliContext, data: T[], spec: OutputSpec<T, R>): void {
+    printOutput(data, spec, context.output);
+}
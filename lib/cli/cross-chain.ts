@@ -0,0 +1,82 @@
+/**
+ * okx-dex subcommands for the cross-chain bridge endpoints
+ */
+
+import { Command } from 'commander';
+import { ChainInfo } from '../chains';
+import { BRIDGE_OUTPUT, BRIDGE_TOKEN_OUTPUT, CROSS_CHAIN_QUOTE_OUTPUT, TOKEN_PAIR_OUTPUT } from '../output';
+import { createContext, parseChain, printData, toBaseUnits } from './common';
+
+interface CrossChainQuoteOptions {
+    fromChain: ChainInfo;
+    toChain: ChainInfo;
+    from: string;
+    to: string;
+    amount: string;
+    baseUnits?: boolean;
+    slippage: string;
+    sort?: string;
+    dexIds?: string;
+    allowBridge?: string;
+    denyBridge?: string;
+    priceImpactProtection?: string;
+}
+
+export function registerCrossChainCommands(program: Command): void {
+    program.command('bridges')
+        .description('List supported bridges')
+        .option('-c, --chain <chain>', 'only bridges from this chain (ID or name)', parseChain)
+        .action(async (options: { chain?: ChainInfo }, command: Command) => {
+            const context = createContext(command);
+            printData(context, await context.client.getSupportedBridges({ chainId: options.chain?.chainId }), BRIDGE_OUTPUT);
+        });
+
+    program.command('bridge-tokens')
+        .description('List tokens that can be bridged')
+        .option('-c, --chain <chain>', 'only tokens on this chain (ID or name)', parseChain)
+        .action(async (options: { chain?: ChainInfo }, command: Command) => {
+            const context = createContext(command);
+            printData(context, await context.client.getBridgeTokens({ chainId: options.chain?.chainId }), BRIDGE_TOKEN_OUTPUT);
+        });
+
+    program.command('token-pairs')
+        .description('List bridgeable token pairs from a chain')
+        .requiredOption('-c, --chain <chain>', 'source chain ID or name', parseChain)
+        .action(async (options: { chain: ChainInfo }, command: Command) => {
+            const context = createContext(command);
+            printData(context, await context.client.getBridgeTokenPairs({ fromChainId: options.chain.chainId }), TOKEN_PAIR_OUTPUT);
+        });
+
+    program.command('cross-chain-quote')
+        .description('Get bridge routes for moving a token to another chain')
+        .requiredOption('--from-chain <chain>', 'source chain ID or name', parseChain)
+        .requiredOption('--to-chain <chain>', 'destination chain ID or name', parseChain)
+        .requiredOption('-f, --from <token>', 'token to send: symbol or address on the source chain')
+        .requiredOption('-t, --to <token>', 'token to receive: symbol or address on the destination chain')
+        .requiredOption('-a, --amount <amount>', 'amount to send, e.g. 1.5')
+        .option('--base-units', 'the amount is in base units rather than token units')
+        .option('-s, --slippage <fraction>', 'maximum slippage, e.g. 0.01 for 1%', '0.01')
+        .option('--sort <order>', 'route preference: 0 optimal, 1 fastest, 2 most output')
+        .option('--dex-ids <ids>', 'comma-separated liquidity source IDs to route through')
+        .option('--allow-bridge <ids>', 'comma-separated bridge IDs to use')
+        .option('--deny-bridge <ids>', 'comma-separated bridge IDs to avoid')
+        .option('--price-impact-protection <percent>', 'reject routes with a higher price impact')
+        .action(async (options: CrossChainQuoteOptions, command: Command) => {
+            const context = createContext(command);
+            const fromToken = await context.tokens.resolve(options.fromChain.chainId, options.from);
+            const toToken = await context.tokens.resolve(options.toChain.chainId, options.to);
+            printData(context, await context.client.getCrossChainQuote({
+                fromChainId: options.fromChain.chainId,
+                toChainId: options.toChain.chainId,
+                fromTokenAddress: fromToken.tokenContractAddress,
+                toTokenAddress: toToken.tokenContractAddress,
+                amount: toBaseUnits(options.amount, fromToken, options.baseUnits),
+                slippage: options.slippage,
+                sort: options.sort,
+                dexIds: options.dexIds,
+                allowBridge: options.allowBridge,
+                denyBridge: options.denyBridge,
+                priceImpactProtectionPercentage: options.priceImpactProtection,
+            }), CROSS_CHAIN_QUOTE_OUTPUT);
+        });
+}
@@ -0,0 +1,25 @@
+/**
+ * okx-dex doctor: checks credentials, wallets and RPC endpoints before a swap
+ */
+
+import { Command } from 'commander';
+import { DOCTOR_OUTPUT, runDoctor } from '../doctor';
+import { printOutput, resolveOutputFormat } from '../output';
+import { GlobalOptions, parseNumber } from './common';
+
+export function registerDoctorCommand(program: Command): void {
+    program.command('doctor')
+        .description('Check OKX credentials, wallet keys, RPC endpoints and configuration')
+        .option('--timeout <ms>', 'time allowed for each network check', parseNumber, 5000)
+        .action(async (options: { timeout: number }, command: Command) => {
+            // No createContext: a broken .okxdexrc is reported as a check instead of aborting
+            const { env, output, profile } = command.optsWithGlobals<GlobalOptions>();
+            const checks = await runDoctor({ environment: env, profile, timeoutMs: options.timeout });
+            printOutput(checks, DOCTOR_OUTPUT, resolveOutputFormat(output));
+
+            const failed = checks.filter(check => check.status === 'fail').length;
+            const warned = checks.filter(check => check.status === 'warn').length;
+            console.error(failed + warned === 0 ? '\nNo problems found' : `\n${failed} failed, ${warned} warnings`);
+            if (failed > 0) process.exitCode = 1;
+        });
+}
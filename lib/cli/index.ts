@@ -0,0 +1,48 @@
+/**
+ * okx-dex command line interface
+ *
+ * One entry point for the aggregator and cross-chain endpoints on every
+ * supported chain, taking chains and tokens by name and amounts in token
+ * units instead of the per-chain scripts' hard-coded parameters:
+ *
+ *   npm run okx-dex -- quote --chain solana --from SOL --to USDC --amount 1.5
+ */
+
+import { Command, Option } from 'commander';
+import dotenv from 'dotenv';
+import { OUTPUT_FORMATS } from '../output';
+import { GlobalOptions } from './common';
+import { registerCrossChainCommands } from './cross-chain';
+import { registerDoctorCommand } from './doctor';
+import { registerSwapCommands } from './swap';
+import { registerTransactionCommands } from './transactions';
+
+export function createProgram(): Command {
+    const program = new Command('okx-dex')
+        .description('Query the OKX DEX API and execute swaps')
+        .option('-e, --env <name>', 'environment profile (production, beta, local); defaults to OKX_DEX_ENV')
+        .addOption(new Option('-o, --output <format>', 'result format; defaults to OKX_DEX_OUTPUT, else table on a terminal and json when piped')
+            .choices(OUTPUT_FORMATS))
+        .option('-p, --profile <name>', '.okxdexrc profile; defaults to OKX_DEX_PROFILE, else the file\'s defaultProfile')
+        .showHelpAfterError()
+        // Swap executors read the profile and create their clients when they load, so pass the choices on through the environment
+        .hook('preAction', command => {
+            const { env, profile } = command.opts<GlobalOptions>();
+            if (env) process.env.OKX_DEX_ENV = env;
+            if (profile) process.env.OKX_DEX_PROFILE = profile;
+        });
+
+    registerSwapCommands(program);
+    registerTransactionCommands(program);
+    registerCrossChainCommands(program);
+    registerDoctorCommand(program);
+    return program;
+}
+
+if (require.main === module) {
+    dotenv.config();
+    createProgram().parseAsync().catch(error => {
+        console.error('Error:', error instanceof Error ? error.message : error);
+        process.exit(1);
+    });
+}
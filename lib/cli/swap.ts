@@ -0,0 +1,270 @@
+/**
+ * okx-dex subcommands for the single-chain aggregator endpoints
+ */
+
+import { Command } from 'commander';
+import { QuoteParams, SwapParams } from '../client';
+import { ChainInfo, explorerTxUrl } from '../chains';
+import { SwapData } from '../models';
+import { TokenEntry } from '../token-registry';
+import { InvalidParamError } from '../errors';
+import { CHAIN_OUTPUT, LIQUIDITY_OUTPUT, QUOTE_OUTPUT, SWAP_OUTPUT, TOKEN_OUTPUT } from '../output';
+import { DEFAULT_TRADE_LIMITS, confirmTrade, formatTradeReview, reviewSwap } from '../trade-review';
+import { SimulationReport, formatSimulationReport } from '../simulation';
+import { DEFAULT_SLIPPAGE, walletFor } from '../config';
+import { CliContext, createContext, parseChain, parseNumber, printData, toBaseUnits } from './common';
+
+interface ChainOptions {
+    chain: ChainInfo;
+}
+
+interface QuoteOptions extends ChainOptions {
+    from: string;
+    to: string;
+    amount: string;
+    baseUnits?: boolean;
+    slippage?: string;
+    dexIds?: string;
+    priceImpactProtection?: string;
+    feePercent?: string;
+}
+
+interface SwapOptions extends QuoteOptions {
+    wallet?: string;
+    autoSlippage?: boolean;
+    maxAutoSlippageBps?: string;
+    receiver?: string;
+    referrer?: string;
+    gasLimit?: string;
+    gasLevel?: string;
+    computeUnitPrice?: string;
+    computeUnitLimit?: string;
+}
+
+interface ExecuteOptions extends SwapOptions {
+    yes?: boolean;
+    dryRun?: boolean;
+    unlimitedApproval?: boolean;
+    maxPriceImpact: number;
+    maxFeeUsd?: number;
+    maxTax: number;
+}
+
+interface Trade {
+    fromToken: TokenEntry;
+    toToken: TokenEntry;
+    params: QuoteParams;
+}
+
+export function registerSwapCommands(program: Command): void {
+    program.command('chains')
+        .description('List chains supported by the aggregator')
+        .option('-c, --chain <chain>', 'only this chain (ID or name)', parseChain)
+        .action(async (options: Partial<ChainOptions>, command: Command) => {
+            const context = createContext(command);
+            printData(context, await context.client.getSupportedChain({ chainId: options.chain?.chainId }), CHAIN_OUTPUT);
+        });
+
+    program.command('tokens')
+        .description('List tokens available for swaps on a chain')
+        .requiredOption('-c, --chain <chain>', 'chain ID or name', parseChain)
+        .action(async (options: ChainOptions, command: Command) => {
+            const context = createContext(command);
+            printData(context, await context.client.getAllTokens({ chainId: options.chain.chainId }), TOKEN_OUTPUT);
+        });
+
+    program.command('liquidity')
+        .description('List liquidity sources on a chain')
+        .requiredOption('-c, --chain <chain>', 'chain ID or name', parseChain)
+        .action(async (options: ChainOptions, command: Command) => {
+            const context = createContext(command);
+            printData(context, await context.client.getLiquidity({ chainId: options.chain.chainId }), LIQUIDITY_OUTPUT);
+        });
+
+    addQuoteOptions(program.command('quote'))
+        .description('Get the best route and output amount for a swap')
+        .option('-s, --slippage <fraction>', 'maximum slippage, e.g. 0.005 for 0.5%')
+        .action(async (options: QuoteOptions, command: Command) => {
+            const context = createContext(command);
+            const { params } = await resolveTrade(context, options);
+            printData(context, await context.client.getQuote(params), QUOTE_OUTPUT);
+        });
+
+    addSwapOptions(program.command('swap-data'))
+        .description('Get the unsigned swap transaction for a wallet')
+        .option('-w, --wallet <address>', 'wallet the transaction is built for; defaults to WALLET_ADDRESS, else the profile\'s wallet')
+        .action(async (options: SwapOptions, command: Command) => {
+            const context = createContext(command);
+            const wallet = options.wallet ?? walletFor(context.profile, options.chain).address;
+            if (!wallet) {
+                throw new InvalidParamError('Pass --wallet, set WALLET_ADDRESS or add a wallet to the .okxdexrc profile');
+            }
+            const { params } = await resolveTrade(context, options);
+            printData(context, await context.client.getSwap(toSwapParams(context, params, options, wallet)), SWAP_OUTPUT);
+        });
+
+    addSwapOptions(program.command('swap'))
+        .description('Sign and send a swap from WALLET_ADDRESS with PRIVATE_KEY (Solana, Sui and EVM chains)')
+        .option('-y, --yes', 'skip the confirmation prompt; limits still apply')
+        .option('--dry-run', 'build, sign and simulate the swap without sending it')
+        .option('--unlimited-approval', 'approve the router for the maximum amount rather than this swap\'s (EVM)')
+        .option('--max-price-impact <percent>', 'abort above this price impact', parseNumber, DEFAULT_TRADE_LIMITS.maxPriceImpactPercent)
+        .option('--max-fee-usd <usd>', 'abort above this network fee', parseNumber)
+        .option('--max-tax <percent>', 'abort when either token charges a higher tax', parseNumber, DEFAULT_TRADE_LIMITS.maxTaxPercent)
+        .action(async (options: ExecuteOptions, command: Command) => {
+            const context = createContext(command);
+            const { address: wallet, privateKey } = walletFor(context.profile, options.chain);
+            if (!wallet || !privateKey) {
+                throw new InvalidParamError(
+                    'WALLET_ADDRESS and PRIVATE_KEY, or a wallet in the .okxdexrc profile, are required to execute a swap'
+                );
+            }
+
+            const { fromToken, toToken, params } = await resolveTrade(context, options);
+            const [swapData] = await context.client.getSwap(toSwapParams(context, params, options, wallet));
+            if (!swapData) {
+                throw new Error('No swap data returned');
+            }
+            const review = reviewSwap(swapData, {
+                maxPriceImpactPercent: options.maxPriceImpact,
+                maxFeeUsd: options.maxFeeUsd,
+                maxTaxPercent: options.maxTax,
+            });
+
+            if (options.dryRun) {
+                // Nothing is sent, so limits are reported rather than enforced
+                console.log(formatTradeReview(review));
+                console.log('\nSimulating swap transaction (dry run, nothing is sent)...');
+                const report = await simulateSwap(options.chain, swapData, privateKey, [fromToken, toToken]);
+                console.log(formatSimulationReport(report));
+                if (!report.success) process.exitCode = 1;
+                return;
+            }
+            await confirmTrade(review, { yes: options.yes });
+
+            console.log('\nExecuting swap transaction...');
+            const txId = await executeSwap(context, options.chain, swapData, privateKey, options);
+            console.log('\nSwap completed successfully!');
+            console.log('Transaction ID:', txId);
+            console.log('Explorer URL:', explorerTxUrl(options.chain.chainId, txId));
+        });
+}
+
+function addQuoteOptions(command: Command): Command {
+    return command
+        .requiredOption('-c, --chain <chain>', 'chain ID or name', parseChain)
+        .requiredOption('-f, --from <token>', 'token to sell: symbol or address')
+        .requiredOption('-t, --to <token>', 'token to buy: symbol or address')
+        .requiredOption('-a, --amount <amount>', 'amount to sell, e.g. 1.5')
+        .option('--base-units', 'the amount is in base units rather than token units')
+        .option('--dex-ids <ids>', 'comma-separated liquidity source IDs to route through')
+        .option('--price-impact-protection <percent>', 'reject routes with a higher price impact')
+        .option('--fee-percent <percent>', 'referrer fee taken from the input amount; defaults to the profile\'s');
+}
+
+function addSwapOptions(command: Command): Command {
+    return addQuoteOptions(command)
+        .option('-s, --slippage <fraction>', `maximum slippage, e.g. 0.005 for 0.5%; defaults to the profile's, else ${DEFAULT_SLIPPAGE}`)
+        .option('--auto-slippage', 'let the API choose the slippage')
+        .option('--max-auto-slippage-bps <bps>', 'upper bound for --auto-slippage')
+        .option('--receiver <address>', 'address receiving the output tokens')
+        .option('--referrer <address>', 'address receiving the referrer fee; defaults to the profile\'s')
+        .option('--gas-limit <units>', 'gas limit (EVM)')
+        .option('--gas-level <level>', 'gas price level: slow, average or fast (EVM)')
+        .option('--compute-unit-price <microLamports>', 'priority fee per compute unit (Solana)')
+        .option('--compute-unit-limit <units>', 'compute unit limit (Solana)');
+}
+
+// Resolves the token options and converts the amount with the sell token's decimals
+async function resolveTrade(context: CliContext, options: QuoteOptions): Promise<Trade> {
+    const { chainId } = options.chain;
+    const fromToken = await context.tokens.resolve(chainId, options.from);
+    const toToken = await context.tokens.resolve(chainId, options.to);
+    return {
+        fromToken,
+        toToken,
+        params: {
+            chainId,
+            amount: toBaseUnits(options.amount, fromToken, options.baseUnits),
+            fromTokenAddress: fromToken.tokenContractAddress,
+            toTokenAddress: toToken.tokenContractAddress,
+            slippage: options.slippage ?? context.profile.slippage,
+            dexIds: options.dexIds,
+            priceImpactProtectionPercentage: options.priceImpactProtection,
+            feePercent: options.feePercent ?? context.profile.fees?.feePercent,
+        },
+    };
+}
+
+function toSwapParams(context: CliContext, params: QuoteParams, options: SwapOptions, wallet: string): SwapParams {
+    return {
+        ...params,
+        slippage: params.slippage ?? DEFAULT_SLIPPAGE,
+        userWalletAddress: wallet,
+        autoSlippage: options.autoSlippage ? 'true' : undefined,
+        maxAutoSlippageBps: options.maxAutoSlippageBps,
+        swapReceiverAddress: options.receiver,
+        referrerAddress: options.referrer ?? context.profile.fees?.referrer,
+        gasLimit: options.gasLimit,
+        gasLevel: options.gasLevel,
+        computeUnitPrice: options.computeUnitPrice,
+        computeUnitLimit: options.computeUnitLimit,
+    };
+}
+
+// Executors are loaded on demand: each pulls in its chain SDK and RPC settings
+async function executeSwap(
+    context: CliContext,
+    chain: ChainInfo,
+    swapData: SwapData,
+    privateKey: string,
+    options: ExecuteOptions
+): Promise<string> {
+    switch (chain.family) {
+        case 'solana': {
+            const solana = await import('../solana/swap/solana-swap');
+            return solana.executeSwap(swapData.tx.data, privateKey);
+        }
+        case 'sui': {
+            const sui = await import('../sui/swap/sui-swap');
+            return (await sui.executeSwap(swapData.tx.data, privateKey)).txId;
+        }
+        case 'evm': {
+            const evm = await import('../evm/swap/evm-swap');
+            // The router pulls ERC-20 input tokens, so it needs an allowance first
+            const approval = await evm.approveSwap(chain, swapData, privateKey, { unlimited: options.unlimitedApproval }, context.client);
+            for (const txId of approval?.txIds ?? []) {
+                console.log('Approval confirmed:', explorerTxUrl(chain.chainId, txId));
+            }
+            return (await evm.executeSwap(chain, swapData, privateKey)).txId;
+        }
+        default:
+            throw new InvalidParamError(
+                `Swap execution is not supported on ${chain.name}; use swap-data to get the transaction to sign`
+            );
+    }
+}
+
+async function simulateSwap(
+    chain: ChainInfo,
+    swapData: SwapData,
+    privateKey: string,
+    tokens: TokenEntry[]
+): Promise<SimulationReport> {
+    switch (chain.family) {
+        case 'solana': {
+            const solana = await import('../solana/swap/solana-swap');
+            return solana.simulateSwap(swapData.tx.data, privateKey, tokens);
+        }
+        case 'sui': {
+            const sui = await import('../sui/swap/sui-swap');
+            return sui.simulateSwap(swapData.tx.data, privateKey);
+        }
+        case 'evm': {
+            const evm = await import('../evm/swap/evm-swap');
+            return evm.simulateSwap(chain, swapData, privateKey);
+        }
+        default:
+            throw new InvalidParamError(`Swap simulation is not supported on ${chain.name}`);
+    }
+}
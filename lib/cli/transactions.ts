@@ -0,0 +1,40 @@
+/**
+ * okx-dex speed-up and cancel: replace a stuck EVM transaction of the wallet
+ */
+
+import { Command } from 'commander';
+import { ChainInfo, explorerTxUrl } from '../chains';
+import { walletFor } from '../config';
+import { InvalidParamError } from '../errors';
+import { createContext, parseChain } from './common';
+
+interface ReplaceOptions {
+    chain: ChainInfo;
+}
+
+export function registerTransactionCommands(program: Command): void {
+    program.command('speed-up <hash>')
+        .description('Resend a pending EVM transaction of the wallet with higher fees')
+        .requiredOption('-c, --chain <chain>', 'chain ID or name', parseChain)
+        .action((hash: string, options: ReplaceOptions, command: Command) => replace(hash, options, command, 'speed-up'));
+
+    program.command('cancel <hash>')
+        .description('Replace a pending EVM transaction of the wallet with an empty transfer to itself')
+        .requiredOption('-c, --chain <chain>', 'chain ID or name', parseChain)
+        .action((hash: string, options: ReplaceOptions, command: Command) => replace(hash, options, command, 'cancel'));
+}
+
+async function replace(hash: string, options: ReplaceOptions, command: Command, mode: 'speed-up' | 'cancel'): Promise<void> {
+    const context = createContext(command);
+    const { privateKey } = walletFor(context.profile, options.chain);
+    if (!privateKey) {
+        throw new InvalidParamError('PRIVATE_KEY, or a wallet in the .okxdexrc profile, is required to replace a transaction');
+    }
+
+    // Loaded on demand like the swap executors
+    const evm = await import('../evm/swap/evm-swap');
+    const { txId } = await evm.replaceTransaction(options.chain, hash, privateKey, mode);
+    console.log(txId === hash ? '\nThe original transaction was mined first.' : '\nReplacement mined.');
+    console.log('Transaction ID:', txId);
+    console.log('Explorer URL:', explorerTxUrl(options.chain.chainId, txId));
+}
@@ -0,0 +1,524 @@
+/**
+ * Typed client for the OKX DEX API
+ *
+ * Wraps the timestamp / query string / signing / fetch sequence that every
+ * script used to repeat, so the API can be consumed as a library.
+ */
+
+import { signRequest } from './shared';
+import { CredentialProvider, EnvCredentialProvider, OkxCredentials, StaticCredentialProvider } from './credentials';
+import { ENDPOINTS } from './endpoints';
+import { normalizeAddress } from './chains';
+import { AuthMode, EnvironmentProfile, resolveEnvironment } from './environments';
+import { ServerClock, serverClock } from './clock';
+import { Cassette, PLACEHOLDER_CREDENTIALS, cassetteFromEnv } from './cassette';
+import { CacheStore, DEFAULT_CACHE_TTLS, MemoryCache, TOKEN_METADATA_KEY, getSharedCache } from './cache';
+import { RateLimitOptions, RequestScheduler, endpointGroup } from './rate-limiter';
+import { Logger } from './logger';
+import { ClockSkewError, InvalidParamError, UpstreamHttpError, errorFromResponse, errorFromStatus } from './errors';
+import { Validator, array, validate } from './schema';
+import {
+    ApproveTransaction,
+    Bridge,
+    BridgeToken,
+    BridgeTokenPair,
+    BroadcastResult,
+    CrossChainQuote,
+    LiquiditySource,
+    QuoteData,
+    SupportedChain,
+    SwapData,
+    SwapInstructionData,
+    TokenListEntry,
+    approveTransactionSchema,
+    bridgeSchema,
+    bridgeTokenPairSchema,
+    bridgeTokenSchema,
+    broadcastResultSchema,
+    crossChainQuoteSchema,
+    liquiditySourceSchema,
+    quoteDataSchema,
+    supportedChainSchema,
+    swapDataSchema,
+    swapInstructionDataSchema,
+    tokenListEntrySchema
+} from './models';
+
+// =================
+// Endpoints
+// =================
+
+export const OKX_BASE_URL = "https://www.okx.com";
+
+export { ENDPOINTS };
+
+// =================
+// Request Parameters
+// =================
+
+export interface QuoteParams {
+    chainId: string;
+    amount: string;
+    fromTokenAddress: string;
+    toTokenAddress: string;
+    slippage?: string;
+    dexIds?: string;
+    priceImpactProtectionPercentage?: string;
+    feePercent?: string;
+}
+
+export interface SwapParams extends QuoteParams {
+    slippage: string;
+    userWalletAddress: string;
+    autoSlippage?: string;
+    maxAutoSlippageBps?: string;
+    swapReceiverAddress?: string;
+    referrerAddress?: string;
+    fromTokenReferrerWalletAddress?: string;
+    toTokenReferrerWalletAddress?: string;
+    gasLimit?: string;
+    gasLevel?: string;
+    computeUnitPrice?: string;
+    computeUnitLimit?: string;
+}
+
+export interface SwapInstructionParams extends SwapParams {
+    priceTolerance?: string;
+    pathNum?: string;
+}
+
+export interface ApproveTransactionParams {
+    chainId: string;
+    tokenContractAddress: string;
+    /** Allowance to grant in base units */
+    approveAmount: string;
+}
+
+export interface BroadcastTransactionParams {
+    /** Signed transaction, encoded as the chain's RPC expects it */
+    signedTx: string;
+    chainIndex: string;
+    address: string;
+    /** JSON string with chain-specific options, e.g. `{"enableMevProtection":true}` */
+    extraData?: string;
+}
+
+export interface ChainParams {
+    chainId: string;
+}
+
+export interface SupportedChainParams {
+    chainId?: string;
+}
+
+export interface CrossChainQuoteParams {
+    fromChainId: string;
+    toChainId: string;
+    fromTokenAddress: string;
+    toTokenAddress: string;
+    amount: string;
+    slippage: string;
+    sort?: string;
+    dexIds?: string;
+    allowBridge?: string;
+    denyBridge?: string;
+    priceImpactProtectionPercentage?: string;
+}
+
+export interface BridgeTokenPairsParams {
+    fromChainId: string;
+}
+
+export type QueryParams = object;
+
+// =================
+// Client
+// =================
+
+export interface OkxApiResponse<T> {
+    code: string;
+    msg: string;
+    data: T;
+}
+
+export interface OkxDexClientOptions {
+    /** Profile name or object; defaults to OKX_DEX_ENV, then production (see environments.ts) */
+    environment?: string | EnvironmentProfile;
+    /** Overrides the base URL of the selected environment */
+    baseUrl?: string;
+    /** Overrides the request timeout of the selected environment */
+    timeoutMs?: number;
+    /** Source of the API key used to sign requests; defaults to the OKX_* environment variables */
+    credentials?: CredentialProvider;
+    headers?: Record<string, string>;
+    fetch?: typeof fetch;
+    /** Token bucket limits for this client; `false` disables client-side limiting */
+    rateLimit?: RateLimitOptions | false;
+    /** Receives warnings such as rate limit backoffs; silent by default (see logger.ts) */
+    logger?: Logger;
+    /** Scheduler shared with other clients, taking precedence over `rateLimit` */
+    scheduler?: RequestScheduler;
+    /** Tracks the offset to server time for signing; defaults to the shared `serverClock` */
+    clock?: ServerClock;
+    /** Records or replays HTTP traffic; defaults to OKX_DEX_CASSETTE, `false` disables it */
+    cassette?: Cassette | false;
+    /** Store for metadata responses; defaults to the shared store (see cache.ts), `false` disables caching */
+    cache?: CacheStore | false;
+    /** Overrides of DEFAULT_CACHE_TTLS, keyed by request path */
+    cacheTtls?: Record<string, number>;
+}
+
+export interface RequestOptions {
+    /** Dispatch priority, see RequestPriority; defaults by endpoint group */
+    priority?: number;
+    /** Bypass the cache and store the fresh response */
+    refresh?: boolean;
+}
+
+/** Symbol and decimals of a token, as used for amount conversion */
+export interface TokenMetadata {
+    tokenContractAddress: string;
+    symbol: string;
+    decimals: number;
+}
+
+// Method, path and encoded query or body of a request, as they are signed
+interface PreparedRequest {
+    method: "GET" | "POST";
+    path: string;
+    query: string;
+    body?: string;
+}
+
+// Upper bound on retries with rotated credentials for a single request
+const MAX_CREDENTIAL_ATTEMPTS = 5;
+
+// Scheduler key shared by unsigned requests
+const ANONYMOUS_KEY = "anonymous";
+
+export function buildQueryString(params: QueryParams = {}): string {
+    const entries = Object.entries(params)
+        .filter(([, value]) => value !== undefined && value !== null)
+        .map(([key, value]) => [key, String(value)]);
+
+    if (entries.length === 0) return "";
+    return "?" + new URLSearchParams(entries).toString();
+}
+
+export class OkxDexClient {
+    private readonly baseUrl: string;
+    private readonly auth: AuthMode;
+    private readonly timeoutMs: number;
+    private readonly headers: Record<string, string>;
+    private readonly fetchFn: typeof fetch;
+    private readonly scheduler?: RequestScheduler;
+    private readonly credentials: CredentialProvider;
+    private readonly clock: ServerClock;
+    private readonly cache?: CacheStore;
+    private readonly cacheTtls: Record<string, number>;
+
+    constructor(options: OkxDexClientOptions = {}) {
+        const environment = resolveEnvironment(options.environment);
+        this.baseUrl = options.baseUrl ?? environment.baseUrl;
+        this.auth = environment.auth;
+        this.timeoutMs = options.timeoutMs ?? environment.timeoutMs;
+        const cassette = options.cassette === false ? undefined : options.cassette ?? cassetteFromEnv();
+        // Replays must not depend on real keys being present
+        this.credentials = options.credentials ?? (cassette?.mode === 'replay'
+            ? new StaticCredentialProvider(PLACEHOLDER_CREDENTIALS)
+            : new EnvCredentialProvider());
+        this.headers = options.headers ?? {};
+        this.clock = options.clock ?? serverClock;
+        this.fetchFn = cassette ? cassette.wrap(options.fetch ?? fetch) : options.fetch ?? fetch;
+        // Cassette runs keep metadata in memory so every request reaches the fixture
+        this.cache = options.cache === false ? undefined
+            : options.cache ?? (cassette ? new MemoryCache() : getSharedCache());
+        this.cacheTtls = { ...DEFAULT_CACHE_TTLS, ...options.cacheTtls };
+        this.scheduler = options.scheduler ?? (
+            options.rateLimit === false ? undefined : new RequestScheduler({ logger: options.logger, ...options.rateLimit })
+        );
+    }
+
+    /**
+     * Sends a GET request, signed unless the environment uses `auth: 'none'`,
+     * and returns the `data` field of the response. Failures raise an
+     * OkxDexError subclass (see errors.ts); a payload that does not match the
+     * given validator raises ResponseValidationError. Paths with a cache TTL
+     * are served from the cache while fresh.
+     */
+    async get<T = unknown>(
+        requestPath: string,
+        params?: QueryParams,
+        validator?: Validator<T>,
+        options: RequestOptions = {}
+    ): Promise<T> {
+        const request: PreparedRequest = { method: "GET", path: requestPath, query: buildQueryString(params) };
+        const ttl = this.cacheTtls[requestPath];
+        if (!this.cache || !ttl) {
+            return this.request(request, validator, options);
+        }
+
+        const key = `${this.baseUrl}${requestPath}${request.query}`;
+        if (!options.refresh) {
+            const cached = await this.cache.get<T>(key);
+            if (cached !== undefined) return cached;
+        }
+        const data = await this.request(request, validator, options);
+        await this.cache.set(key, data, ttl);
+        return data;
+    }
+
+    /**
+     * Sends a POST request with a JSON body, which is part of the signed
+     * prehash, and returns the `data` field of the response like `get`.
+     */
+    post<T = unknown>(
+        requestPath: string,
+        body: object,
+        validator?: Validator<T>,
+        options: RequestOptions = {}
+    ): Promise<T> {
+        return this.request({ method: "POST", path: requestPath, query: "", body: JSON.stringify(body) }, validator, options);
+    }
+
+    /** Measures the local clock offset against the server time endpoint */
+    syncClock(): Promise<number> {
+        return this.clock.sync(this.baseUrl, this.fetchFn, this.timeoutMs);
+    }
+
+    private async request<T>(
+        request: PreparedRequest,
+        validator: Validator<T> | undefined,
+        options: RequestOptions
+    ): Promise<T> {
+        if (this.auth === 'none') {
+            return this.dispatch(undefined, request, validator, options);
+        }
+
+        let resynced = false;
+        for (let attempt = 1; ; attempt++) {
+            const credentials = await this.credentials.getCredentials();
+            try {
+                const data = await this.dispatch(credentials, request, validator, options);
+                this.credentials.reportResult?.(credentials);
+                return data;
+            } catch (error) {
+                // Measure the offset against the server time and sign once more
+                if (error instanceof ClockSkewError && !resynced) {
+                    resynced = true;
+                    await this.syncClock().catch(() => { throw error; });
+                    continue;
+                }
+
+                // Providers that rotate keys ask for a retry on a fresh key
+                const rotate = this.credentials.reportResult?.(credentials, error) ?? false;
+                if (!rotate || attempt >= MAX_CREDENTIAL_ATTEMPTS) throw error;
+            }
+        }
+    }
+
+    private dispatch<T>(
+        credentials: OkxCredentials | undefined,
+        request: PreparedRequest,
+        validator: Validator<T> | undefined,
+        options: RequestOptions
+    ): Promise<T> {
+        if (!this.scheduler) {
+            return this.send(credentials, request, validator);
+        }
+
+        return this.scheduler.schedule({
+            group: endpointGroup(request.path),
+            key: credentials?.apiKey ?? ANONYMOUS_KEY,
+            priority: options.priority,
+            // Rotating providers move on to another key instead of waiting on this one
+            retryRateLimits: !this.credentials.reportResult
+        }, () => this.send(credentials, request, validator));
+    }
+
+    private async send<T>(
+        credentials: OkxCredentials | undefined,
+        request: PreparedRequest,
+        validator?: Validator<T>
+    ): Promise<T> {
+        const { method, path: requestPath, query } = request;
+
+        // Signed at dispatch time so queued requests do not carry stale timestamps
+        const sentAt = Date.now();
+        const timestamp = this.clock.timestamp();
+        const headers = {
+            ...(credentials
+                ? signRequest(credentials, timestamp, method, requestPath, query + (request.body ?? ""))
+                : { "Content-Type": "application/json" }),
+            ...this.headers
+        };
+
+        const controller = new AbortController();
+        const timer = setTimeout(() => controller.abort(), this.timeoutMs);
+        let response: Response;
+        let text: string;
+        try {
+            response = await this.fetchFn(`${this.baseUrl}${requestPath}${query}`, {
+                method,
+                headers,
+                body: request.body,
+                signal: controller.signal
+            });
+            text = await response.text();
+            this.clock.observeDateHeader(response.headers.get("date"), sentAt, Date.now());
+        } catch (error) {
+            const reason = controller.signal.aborted
+                ? `timed out after ${this.timeoutMs}ms`
+                : error instanceof Error ? error.message : String(error);
+            throw new UpstreamHttpError(`Request to ${requestPath} failed: ${reason}`, {
+                path: requestPath,
+                retryable: true,
+                cause: error
+            });
+        } finally {
+            clearTimeout(timer);
+        }
+
+        let body: OkxApiResponse<T>;
+        try {
+            body = JSON.parse(text);
+        } catch (error) {
+            if (!response.ok) throw errorFromStatus(requestPath, response.status, text);
+            throw new UpstreamHttpError(`Invalid response from ${requestPath} (HTTP ${response.status}): ${text}`, {
+                path: requestPath,
+                status: response.status,
+                cause: error
+            });
+        }
+
+        if (body.code !== undefined && String(body.code) !== "0") {
+            throw errorFromResponse(requestPath, String(body.code), body.msg, response.status);
+        }
+
+        if (!response.ok) {
+            throw errorFromStatus(requestPath, response.status, text);
+        }
+
+        return validator ? validate(requestPath, validator, body.data) : body.data;
+    }
+
+    // =================
+    // Aggregator
+    // =================
+
+    getQuote(params: QuoteParams): Promise<QuoteData[]> {
+        return this.get(ENDPOINTS.QUOTE, params, array(quoteDataSchema));
+    }
+
+    getSwap(params: SwapParams): Promise<SwapData[]> {
+        return this.get(ENDPOINTS.SWAP, params, array(swapDataSchema));
+    }
+
+    getSwapInstruction(params: SwapInstructionParams): Promise<SwapInstructionData> {
+        return this.get(ENDPOINTS.SWAP_INSTRUCTION, params, swapInstructionDataSchema);
+    }
+
+    /** Calldata approving the OKX DEX router to spend an ERC-20 token; EVM chains only */
+    getApproveTransaction(params: ApproveTransactionParams): Promise<ApproveTransaction[]> {
+        return this.get(ENDPOINTS.APPROVE_TRANSACTION, params, array(approveTransactionSchema));
+    }
+
+    getAllTokens(params: ChainParams): Promise<TokenListEntry[]> {
+        return this.get(ENDPOINTS.ALL_TOKENS, params, array(tokenListEntrySchema));
+    }
+
+    getLiquidity(params: ChainParams): Promise<LiquiditySource[]> {
+        return this.get(ENDPOINTS.LIQUIDITY, params, array(liquiditySourceSchema));
+    }
+
+    getSupportedChain(params: SupportedChainParams = {}): Promise<SupportedChain[]> {
+        return this.get(ENDPOINTS.SUPPORTED_CHAIN, params, array(supportedChainSchema));
+    }
+
+    /**
+     * Returns symbol and decimals for each token, from the cache, the chain's
+     * token list, or for unlisted tokens a small quote between the first two.
+     */
+    async getTokenMetadata(chainId: string, ...tokenAddresses: string[]): Promise<TokenMetadata[]> {
+        const keyFor = (address: string) =>
+            `${TOKEN_METADATA_KEY}:${this.baseUrl}:${chainId}:${normalizeAddress(address)}`;
+        const ttl = this.cacheTtls[TOKEN_METADATA_KEY];
+        const found = new Map<string, TokenMetadata>();
+        const remember = async (token: TokenMetadata) => {
+            found.set(normalizeAddress(token.tokenContractAddress), token);
+            if (this.cache && ttl) await this.cache.set(keyFor(token.tokenContractAddress), token, ttl);
+        };
+        const missing = () => tokenAddresses.filter(address => !found.has(normalizeAddress(address)));
+
+        for (const address of tokenAddresses) {
+            const cached = await this.cache?.get<TokenMetadata>(keyFor(address));
+            if (cached) found.set(normalizeAddress(address), cached);
+        }
+
+        if (missing().length > 0) {
+            const wanted = new Set(missing().map(normalizeAddress));
+            for (const token of await this.getAllTokens({ chainId })) {
+                if (wanted.has(normalizeAddress(token.tokenContractAddress))) {
+                    await remember({
+                        tokenContractAddress: token.tokenContractAddress,
+                        symbol: token.tokenSymbol,
+                        decimals: Number(token.decimals),
+                    });
+                }
+            }
+        }
+
+        if (missing().length > 0 && tokenAddresses.length >= 2) {
+            const [quote] = await this.getQuote({
+                chainId,
+                fromTokenAddress: tokenAddresses[0],
+                toTokenAddress: tokenAddresses[1],
+                amount: "1000000", // small amount just to get token info
+            });
+            const wanted = new Set(missing().map(normalizeAddress));
+            for (const token of quote ? [quote.fromToken, quote.toToken] : []) {
+                if (!wanted.has(normalizeAddress(token.tokenContractAddress))) continue;
+                await remember({
+                    tokenContractAddress: token.tokenContractAddress,
+                    symbol: token.tokenSymbol,
+                    decimals: Number(token.decimal),
+                });
+            }
+        }
+
+        const unknown = missing();
+        if (unknown.length > 0) {
+            throw new InvalidParamError(`Unknown token ${unknown.join(", ")} on chain ${chainId}`, { path: ENDPOINTS.ALL_TOKENS });
+        }
+        return tokenAddresses.map(address => found.get(normalizeAddress(address))!);
+    }
+
+    // =================
+    // Cross-Chain
+    // =================
+
+    getCrossChainQuote(params: CrossChainQuoteParams): Promise<CrossChainQuote[]> {
+        return this.get(ENDPOINTS.CROSS_CHAIN_QUOTE, params, array(crossChainQuoteSchema));
+    }
+
+    getSupportedBridges(params: SupportedChainParams = {}): Promise<Bridge[]> {
+        return this.get(ENDPOINTS.SUPPORTED_BRIDGES, params, array(bridgeSchema));
+    }
+
+    getBridgeTokens(params: SupportedChainParams = {}): Promise<BridgeToken[]> {
+        return this.get(ENDPOINTS.BRIDGE_TOKENS, params, array(bridgeTokenSchema));
+    }
+
+    getBridgeTokenPairs(params: BridgeTokenPairsParams): Promise<BridgeTokenPair[]> {
+        return this.get(ENDPOINTS.BRIDGE_TOKEN_PAIRS, params, array(bridgeTokenPairSchema));
+    }
+
+    // =================
+    // Transactions
+    // =================
+
+    /** Submits a signed transaction through OKX for on-chain broadcast */
+    broadcastTransaction(params: BroadcastTransactionParams): Promise<BroadcastResult[]> {
+        return this.post(ENDPOINTS.BROADCAST_TRANSACTION, params, array(broadcastResultSchema));
+    }
+}
@@ -0,0 +1,100 @@
+// Clock skew estimation from Date headers and the time endpoint, on a fake clock
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import { ServerClock } from './clock';
+
+/** HTTP Date header for a server time in milliseconds since the epoch */
+const dateHeader = (ms: number) => new Date(ms).toUTCString();
+
+function recordingLogger() {
+    const messages: string[] = [];
+    return { messages, warn: (message: string) => { messages.push(message); } };
+}
+
+describe('ServerClock', () => {
+    beforeEach(() => mock.timers.enable({ apis: ['Date'], now: 100_000 }));
+    afterEach(() => mock.timers.reset());
+
+    it('estimates the offset from a Date header against the middle of the round trip', () => {
+        const clock = new ServerClock();
+        // The header says 105s; the middle of that second is 105.5s, the middle of the request 100.1s
+        clock.observeDateHeader(dateHeader(105_000), 100_000, 100_200);
+        assert.equal(clock.offsetMs, 5_400);
+        assert.equal(clock.now(), 105_400);
+        assert.equal(clock.timestamp(), new Date(105_400).toISOString());
+
+        clock.observeDateHeader(dateHeader(90_000), 100_000, 100_200);
+        assert.equal(clock.offsetMs, -9_600);
+    });
+
+    it('treats skew within the tolerance as noise', () => {
+        const clock = new ServerClock(2_000);
+        clock.observeDateHeader(dateHeader(101_000), 100_000, 100_200);
+        assert.equal(clock.offsetMs, 0);
+
+        clock.observeDateHeader(dateHeader(110_000), 100_000, 100_200);
+        assert.equal(clock.offsetMs, 10_400);
+        // Close to the current offset: kept
+        clock.observeDateHeader(dateHeader(111_000), 100_000, 100_200);
+        assert.equal(clock.offsetMs, 10_400);
+        // Back in sync with the local clock: reset to zero
+        clock.observeDateHeader(dateHeader(100_000), 100_000, 100_200);
+        assert.equal(clock.offsetMs, 0);
+    });
+
+    it('ignores missing and unparseable Date headers', () => {
+        const clock = new ServerClock();
+        clock.observeDateHeader(null, 100_000, 100_200);
+        clock.observeDateHeader('yesterday', 100_000, 100_200);
+        assert.equal(clock.offsetMs, 0);
+    });
+
+    it('corrects local timestamps by the offset', () => {
+        const clock = new ServerClock();
+        const local = new Date(100_000).toISOString();
+        assert.equal(clock.correct(local), local);
+
+        clock.setOffset(-3_000);
+        assert.equal(clock.correct(local), new Date(97_000).toISOString());
+        assert.equal(clock.correct('not a time'), 'not a time');
+    });
+
+    it('tells the logger once when the offset exceeds the tolerance', () => {
+        const logger = recordingLogger();
+        const clock = new ServerClock(2_000, logger);
+        clock.setOffset(1_500);
+        assert.deepEqual(logger.messages, []);
+
+        clock.setOffset(4_000);
+        clock.setOffset(-6_000);
+        assert.deepEqual(logger.messages, [
+            'Local clock is behind the OKX server by 4000ms; correcting request timestamps',
+        ]);
+    });
+
+    it('syncs against the server time endpoint', async () => {
+        const clock = new ServerClock();
+        const fetchFn = async (url: string | URL | Request) => {
+            assert.equal(String(url), 'http://okx.test/api/v5/public/time');
+            mock.timers.tick(200);
+            return new Response(JSON.stringify({ code: '0', data: [{ ts: '92100' }] }));
+        };
+
+        assert.equal(await clock.sync('http://okx.test', fetchFn as typeof fetch), -8_000);
+        assert.equal(clock.offsetMs, -8_000);
+    });
+
+    it('raises an upstream error when the server time is unreadable', async () => {
+        const clock = new ServerClock();
+        const invalid = async () => new Response(JSON.stringify({ code: '0', data: [] }));
+        const failing = async () => { throw new Error('connect ECONNREFUSED'); };
+
+        await assert.rejects(clock.sync('http://okx.test', invalid as typeof fetch), {
+            name: 'UpstreamHttpError', message: /Invalid server time/, retryable: true,
+        });
+        await assert.rejects(clock.sync('http://okx.test', failing as typeof fetch), {
+            name: 'UpstreamHttpError', message: /Could not read server time .*ECONNREFUSED/,
+        });
+        assert.equal(clock.offsetMs, 0);
+    });
+});
@@ -0,0 +1,100 @@
+/**
+ * Server clock tracking for request signing
+ *
+ * OKX rejects requests whose OK-ACCESS-TIMESTAMP is too far from server time,
+ * so a drifting local clock shows up as unexplained auth failures. The clock
+ * estimates the offset to the server from response Date headers (or the
+ * public time endpoint) and signing uses the corrected time.
+ */
+
+import { ENDPOINTS } from './endpoints';
+import { UpstreamHttpError } from './errors';
+import { Logger, silentLogger } from './logger';
+
+// Date headers only carry whole seconds
+const DATE_HEADER_PRECISION_MS = 1000;
+
+export class ServerClock {
+    private offset = 0;
+    private warned = false;
+
+    /**
+     * @param toleranceMs Skew estimates from Date headers within this distance
+     *   of the current offset are treated as measurement noise
+     * @param logger Told once when the offset first exceeds the tolerance;
+     *   assignable later, e.g. on the shared `serverClock`
+     */
+    constructor(private readonly toleranceMs = 2000, public logger: Logger = silentLogger) {}
+
+    /** Milliseconds to add to the local clock to get server time */
+    get offsetMs(): number {
+        return this.offset;
+    }
+
+    now(): number {
+        return Date.now() + this.offset;
+    }
+
+    /** Corrected ISO timestamp for OK-ACCESS-TIMESTAMP */
+    timestamp(): string {
+        return new Date(this.now()).toISOString();
+    }
+
+    /** Applies the offset to a timestamp taken from the local clock */
+    correct(timestamp: string): string {
+        const time = Date.parse(timestamp);
+        if (this.offset === 0 || Number.isNaN(time)) return timestamp;
+        return new Date(time + this.offset).toISOString();
+    }
+
+    setOffset(offsetMs: number): void {
+        this.offset = Math.round(offsetMs);
+        if (Math.abs(this.offset) >= this.toleranceMs && !this.warned) {
+            this.warned = true;
+            this.logger.warn(`Local clock is ${this.offset > 0 ? 'behind' : 'ahead of'} the OKX server by ${Math.abs(this.offset)}ms; correcting request timestamps`);
+        }
+    }
+
+    /**
+     * Updates the offset from the Date header of a response received for a
+     * request sent at `sentAt` (both local times).
+     */
+    observeDateHeader(date: string | null, sentAt: number, receivedAt: number): void {
+        const serverTime = date ? Date.parse(date) : NaN;
+        if (Number.isNaN(serverTime)) return;
+
+        // Middle of the truncated second against the middle of the round trip
+        const skew = serverTime + DATE_HEADER_PRECISION_MS / 2 - (sentAt + receivedAt) / 2;
+        if (Math.abs(skew - this.offset) > this.toleranceMs) {
+            this.setOffset(Math.abs(skew) > this.toleranceMs ? skew : 0);
+        }
+    }
+
+    /** Measures the offset against the public time endpoint and returns it */
+    async sync(baseUrl: string, fetchFn: typeof fetch = fetch, timeoutMs = 10_000): Promise<number> {
+        const path = ENDPOINTS.SERVER_TIME;
+        const sentAt = Date.now();
+        let serverTime: number;
+        try {
+            const response = await fetchFn(`${baseUrl}${path}`, { signal: AbortSignal.timeout(timeoutMs) });
+            const body = await response.json();
+            serverTime = Number(body?.data?.[0]?.ts);
+        } catch (error) {
+            const reason = error instanceof Error ? error.message : String(error);
+            throw new UpstreamHttpError(`Could not read server time from ${path}: ${reason}`, {
+                path,
+                retryable: true,
+                cause: error
+            });
+        }
+        if (!Number.isFinite(serverTime)) {
+            throw new UpstreamHttpError(`Invalid server time from ${path}`, { path, retryable: true });
+        }
+
+        this.setOffset(serverTime - (sentAt + Date.now()) / 2);
+        return this.offset;
+    }
+}
+
+/** Clock shared by getHeaders and clients created without their own */
+export const serverClock = new ServerClock();
@@ -0,0 +1,223 @@
+/**
+ * Profile configuration file (.okxdexrc)
+ *
+ * A JSON file of named profiles holding the settings that otherwise live in
+ * .env and in script constants: wallets and RPC URLs per chain, the default
+ * slippage, MEV protection and fee/referrer settings. The file is
+ * OKX_DEX_CONFIG, else .okxdexrc in the working directory, else in the home
+ * directory. The profile is the CLI's --profile, else OKX_DEX_PROFILE, else
+ * the file's defaultProfile, else one named "default".
+ *
+ * Each setting is taken from the first of these that sets it:
+ *   1. CLI flags
+ *   2. environment variables (WALLET_ADDRESS, PRIVATE_KEY, SOLANA_RPC_URL, EVM_SIMULATION_RPC_URL, ...)
+ *   3. the selected profile
+ *   4. the built-in defaults of the CLI or script
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ChainFamily, ChainInfo, findChain, isValidAddress } from './chains';
+import { ConfigError } from './errors';
+import { Infer, SchemaIssue, boolean, number, numericString, optional, positiveInteger, record, strictObject, string } from './schema';
+
+export const CONFIG_FILE_NAME = '.okxdexrc';
+
+/** Slippage used when neither the command nor the profile sets one, as a fraction (0.5%) */
+export const DEFAULT_SLIPPAGE = '0.005';
+
+const FAMILIES: readonly ChainFamily[] = ['evm', 'solana', 'sui', 'ton', 'tron'];
+
+// =================
+// Schema
+// =================
+
+const walletSchema = strictObject({
+    address: string,
+    // Name of the environment variable holding the key; keys never go in the file
+    privateKeyEnv: optional(string),
+});
+
+const mevSchema = strictObject({
+    maxPriceImpact: optional(numericString),
+    twap: optional(boolean),
+    twapIntervals: optional(positiveInteger),
+    twapDelayMs: optional(positiveInteger),
+    minPriorityFee: optional(number),
+    maxPriorityFee: optional(number),
+    priorityMultiplier: optional(number),
+    targetSpecificBlocks: optional(boolean),
+});
+
+const feeSchema = strictObject({
+    feePercent: optional(numericString),
+    referrer: optional(string),
+});
+
+// wallets, rpc and simulationRpc are keyed by chain ID, chain name or chain family, e.g. "solana", "196" or "evm"
+const profileSchema = strictObject({
+    wallets: optional(record(walletSchema)),
+    rpc: optional(record(string)),
+    // Node that EVM swaps are simulated on before signing, e.g. a local fork; defaults to rpc
+    simulationRpc: optional(record(string)),
+    slippage: optional(numericString),
+    mev: optional(mevSchema),
+    fees: optional(feeSchema),
+});
+
+const configSchema = strictObject({
+    defaultProfile: optional(string),
+    profiles: record(profileSchema),
+});
+
+export type WalletConfig = Infer<typeof walletSchema>;
+export type MevSettings = Infer<typeof mevSchema>;
+export type FeeSettings = Infer<typeof feeSchema>;
+export type ProfileConfig = Infer<typeof profileSchema>;
+export type OkxDexConfig = Infer<typeof configSchema>;
+
+export type Profile = ProfileConfig & {
+    /** Selected profile, undefined when no profile applies */
+    name?: string;
+    /** Config file the profile was read from */
+    file?: string;
+};
+
+export interface WalletSettings {
+    address?: string;
+    privateKey?: string;
+}
+
+// =================
+// Loading
+// =================
+
+/** Path of the config file in effect, or undefined when there is none */
+export function findConfigFile(env: NodeJS.ProcessEnv = process.env, cwd = process.cwd()): string | undefined {
+    if (env.OKX_DEX_CONFIG) return env.OKX_DEX_CONFIG;
+    return [path.join(cwd, CONFIG_FILE_NAME), path.join(os.homedir(), CONFIG_FILE_NAME)]
+        .find(candidate => fs.existsSync(candidate));
+}
+
+/** Reads and validates a config file, throwing ConfigError on any problem */
+export function loadConfig(filePath: string): OkxDexConfig {
+    let content: string;
+    try {
+        content = fs.readFileSync(filePath, 'utf8');
+    } catch (error) {
+        throw new ConfigError(`Cannot read ${filePath}: ${(error as Error).message}`, { path: filePath, cause: error });
+    }
+
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(content);
+    } catch (error) {
+        throw new ConfigError(`${filePath} is not valid JSON: ${(error as Error).message}`, { path: filePath, cause: error });
+    }
+
+    let config: OkxDexConfig;
+    try {
+        config = configSchema(parsed, 'config');
+    } catch (error) {
+        if (error instanceof SchemaIssue) {
+            throw new ConfigError(`Invalid ${filePath}: ${error.message}`, { path: filePath, cause: error });
+        }
+        throw error;
+    }
+
+    for (const [name, profile] of Object.entries(config.profiles)) {
+        for (const [field, entries] of Object.entries({ wallets: profile.wallets, rpc: profile.rpc, simulationRpc: profile.simulationRpc })) {
+            for (const key of Object.keys(entries ?? {})) {
+                if (FAMILIES.includes(key as ChainFamily)) continue;
+                try {
+                    findChain(key);
+                } catch (error) {
+                    throw new ConfigError(
+                        `Invalid ${filePath}: config.profiles.${name}.${field}.${key} is not a chain ID, chain name or family (${FAMILIES.join(', ')})`,
+                        { path: filePath, cause: error }
+                    );
+                }
+            }
+        }
+    }
+    if (config.defaultProfile !== undefined && !(config.defaultProfile in config.profiles)) {
+        throw new ConfigError(`Invalid ${filePath}: defaultProfile "${config.defaultProfile}" is not one of the profiles`, { path: filePath });
+    }
+    return config;
+}
+
+/**
+ * Selects a profile from the config file in effect. Without a config file,
+ * or when the file selects no profile, the result sets nothing, so callers
+ * fall back to their defaults.
+ */
+export function loadProfile(name?: string, env: NodeJS.ProcessEnv = process.env): Profile {
+    const requested = name ?? env.OKX_DEX_PROFILE;
+    const file = findConfigFile(env);
+    if (!file) {
+        if (requested) {
+            throw new ConfigError(`Profile "${requested}" requested but no ${CONFIG_FILE_NAME} found (set OKX_DEX_CONFIG to its path)`);
+        }
+        return {};
+    }
+
+    const config = loadConfig(file);
+    const selected = requested ?? config.defaultProfile ?? ('default' in config.profiles ? 'default' : undefined);
+    if (selected === undefined) return { file };
+
+    const profile = config.profiles[selected];
+    if (!profile) {
+        const known = Object.keys(config.profiles).join(', ');
+        throw new ConfigError(`Unknown profile "${selected}" in ${file} (known: ${known})`, { path: file });
+    }
+    return { ...profile, name: selected, file };
+}
+
+// =================
+// Resolution
+// =================
+
+/**
+ * Wallet for a chain. WALLET_ADDRESS and PRIVATE_KEY take precedence on the
+ * chains WALLET_ADDRESS is an address of; elsewhere they belong to another
+ * chain, so the profile's wallet for the chain is used. An address and key
+ * always come from the same source, never one from each.
+ */
+export function walletFor(profile: Profile, chain: ChainInfo, env: NodeJS.ProcessEnv = process.env): WalletSettings {
+    if (env.WALLET_ADDRESS && isValidAddress(chain.chainId, env.WALLET_ADDRESS)) {
+        return { address: env.WALLET_ADDRESS, privateKey: env.PRIVATE_KEY || undefined };
+    }
+    const wallet = entryFor(profile.wallets, chain);
+    if (wallet) {
+        return { address: wallet.address, privateKey: wallet.privateKeyEnv ? env[wallet.privateKeyEnv] || undefined : undefined };
+    }
+    return { address: env.WALLET_ADDRESS || undefined, privateKey: env.PRIVATE_KEY || undefined };
+}
+
+/** Environment variable overriding a chain's RPC URL, e.g. SOLANA_RPC_URL */
+export function rpcEnvVar(chain: ChainInfo): string {
+    return `${chain.family.toUpperCase()}_RPC_URL`;
+}
+
+/** RPC URL for a chain from its environment variable (see rpcEnvVar), else the profile */
+export function rpcUrlFor(profile: Profile, chain: ChainInfo, env: NodeJS.ProcessEnv = process.env): string | undefined {
+    return env[rpcEnvVar(chain)] || entryFor(profile.rpc, chain);
+}
+
+/** Environment variable overriding the node a chain's transactions are simulated on, e.g. EVM_SIMULATION_RPC_URL */
+export function simulationRpcEnvVar(chain: ChainInfo): string {
+    return `${chain.family.toUpperCase()}_SIMULATION_RPC_URL`;
+}
+
+/** RPC URL to simulate on from its environment variable (see simulationRpcEnvVar), else the profile's simulationRpc, else the chain's RPC URL */
+export function simulationRpcUrlFor(profile: Profile, chain: ChainInfo, env: NodeJS.ProcessEnv = process.env): string | undefined {
+    return env[simulationRpcEnvVar(chain)] || entryFor(profile.simulationRpc, chain) || rpcUrlFor(profile, chain, env);
+}
+
+// An entry for the chain itself wins over one for its family
+function entryFor<T>(entries: Record<string, T> | undefined, chain: ChainInfo): T | undefined {
+    if (!entries) return undefined;
+    const key = Object.keys(entries).find(key => !FAMILIES.includes(key as ChainFamily) && findChain(key).chainId === chain.chainId);
+    return entries[key ?? chain.family];
+}
@@ -0,0 +1,179 @@
+/**
+ * Credential providers for signing OKX API requests
+ *
+ * Each OkxDexClient takes a provider, so one process can sign requests for
+ * several OKX projects. Providers that read files load them once and cache
+ * the result.
+ */
+
+import fs from 'fs';
+import CryptoJS from 'crypto-js';
+import { AuthError } from './errors';
+
+export interface OkxCredentials {
+    apiKey: string;
+    secretKey: string;
+    passphrase: string;
+    projectId: string;
+}
+
+export interface CredentialProvider {
+    getCredentials(): Promise<OkxCredentials>;
+    /**
+     * Optional feedback after each request signed with the returned
+     * credentials. Returning true asks the client to retry the request with
+     * freshly fetched credentials.
+     */
+    reportResult?(credentials: OkxCredentials, error?: unknown): boolean;
+}
+
+function assertCredentials(value: Partial<OkxCredentials> | undefined, source: string): OkxCredentials {
+    const missing = (['apiKey', 'secretKey', 'passphrase', 'projectId'] as const)
+        .filter(field => typeof value?.[field] !== 'string' || value[field] === '');
+
+    if (!value || missing.length > 0) {
+        throw new AuthError(`Missing OKX credentials (${missing.join(', ')}) in ${source}`);
+    }
+    return {
+        apiKey: value.apiKey!,
+        secretKey: value.secretKey!,
+        passphrase: value.passphrase!,
+        projectId: value.projectId!,
+    };
+}
+
+// =================
+// Environment
+// =================
+
+/**
+ * Reads OKX_API_KEY, OKX_SECRET_KEY, OKX_API_PASSPHRASE and OKX_PROJECT_ID,
+ * optionally under a different prefix (e.g. `TENANT_A_` for TENANT_A_API_KEY).
+ */
+export function readEnvCredentials(env: NodeJS.ProcessEnv = process.env, prefix = 'OKX_'): OkxCredentials {
+    return assertCredentials({
+        apiKey: env[`${prefix}API_KEY`],
+        secretKey: env[`${prefix}SECRET_KEY`],
+        passphrase: env[`${prefix}API_PASSPHRASE`],
+        projectId: env[`${prefix}PROJECT_ID`],
+    }, `environment variables ${prefix}*`);
+}
+
+export class EnvCredentialProvider implements CredentialProvider {
+    constructor(
+        private readonly prefix = 'OKX_',
+        private readonly env: NodeJS.ProcessEnv = process.env
+    ) {}
+
+    async getCredentials(): Promise<OkxCredentials> {
+        return readEnvCredentials(this.env, this.prefix);
+    }
+}
+
+// =================
+// In-Memory
+// =================
+
+export class StaticCredentialProvider implements CredentialProvider {
+    private readonly credentials: OkxCredentials;
+
+    constructor(credentials: OkxCredentials) {
+        this.credentials = assertCredentials(credentials, 'static credentials');
+    }
+
+    async getCredentials(): Promise<OkxCredentials> {
+        return this.credentials;
+    }
+}
+
+// =================
+// Files
+// =================
+
+/**
+ * Reads credentials from a JSON file holding either a single credential
+ * object or a map of named profiles, e.g. `{ "tenant-a": { "apiKey": ... } }`.
+ */
+export class JsonFileCredentialProvider implements CredentialProvider {
+    private cached?: OkxCredentials;
+
+    constructor(
+        private readonly filePath: string,
+        private readonly profile?: string
+    ) {}
+
+    async getCredentials(): Promise<OkxCredentials> {
+        if (!this.cached) {
+            const content = await fs.promises.readFile(this.filePath, 'utf8');
+            this.cached = selectProfile(parseJson(content, this.filePath), this.filePath, this.profile);
+        }
+        return this.cached;
+    }
+}
+
+/**
+ * Reads credentials from a file encrypted with `encryptCredentials`. The
+ * decrypted content uses the same layout as JsonFileCredentialProvider.
+ */
+export class EncryptedFileCredentialProvider implements CredentialProvider {
+    private cached?: OkxCredentials;
+
+    constructor(
+        private readonly filePath: string,
+        private readonly password: string,
+        private readonly profile?: string
+    ) {}
+
+    async getCredentials(): Promise<OkxCredentials> {
+        if (!this.cached) {
+            const content = await fs.promises.readFile(this.filePath, 'utf8');
+            const decrypted = decryptContent(content.trim(), this.password, this.filePath);
+            this.cached = selectProfile(parseJson(decrypted, this.filePath), this.filePath, this.profile);
+        }
+        return this.cached;
+    }
+}
+
+/** Produces the content of a file readable by EncryptedFileCredentialProvider */
+export function encryptCredentials(
+    credentials: OkxCredentials | Record<string, OkxCredentials>,
+    password: string
+): string {
+    return CryptoJS.AES.encrypt(JSON.stringify(credentials), password).toString();
+}
+
+function decryptContent(content: string, password: string, filePath: string): string {
+    let decrypted = '';
+    try {
+        decrypted = CryptoJS.AES.decrypt(content, password).toString(CryptoJS.enc.Utf8);
+    } catch {
+        // Malformed UTF-8 after decryption means the password was wrong
+    }
+    if (!decrypted) {
+        throw new AuthError(`Could not decrypt ${filePath}: wrong password or corrupted file`);
+    }
+    return decrypted;
+}
+
+function parseJson(content: string, filePath: string): unknown {
+    try {
+        return JSON.parse(content);
+    } catch {
+        throw new AuthError(`Credential file ${filePath} is not valid JSON`);
+    }
+}
+
+function selectProfile(content: unknown, filePath: string, profile?: string): OkxCredentials {
+    if (typeof content !== 'object' || content === null) {
+        throw new AuthError(`Credential file ${filePath} must contain a JSON object`);
+    }
+    if (!profile) {
+        return assertCredentials(content as Partial<OkxCredentials>, filePath);
+    }
+
+    const entry = (content as Record<string, unknown>)[profile];
+    if (typeof entry !== 'object' || entry === null) {
+        throw new AuthError(`Profile "${profile}" not found in ${filePath}`);
+    }
+    return assertCredentials(entry as Partial<OkxCredentials>, `${filePath} (profile "${profile}")`);
+}
@@ -0,0 +1,419 @@
+/**
+ * Setup diagnostics for the okx-dex doctor command
+ *
+ * Misconfiguration otherwise shows up mid-swap as an auth error, a bad
+ * signature or an RPC timeout. These checks run up front and say what to
+ * change: environment variables that look misspelled, the .okxdexrc profile,
+ * the OKX API key (through a harmless signed request), whether each private
+ * key derives the configured wallet address, and the health and latency of
+ * each RPC endpoint.
+ */
+
+import { OkxDexClient } from './client';
+import { CHAINS, ChainFamily, ChainInfo, findChain, isValidAddress, normalizeAddress } from './chains';
+import { Profile, loadProfile, rpcEnvVar, rpcUrlFor, walletFor } from './config';
+import { StaticCredentialProvider, readEnvCredentials } from './credentials';
+import { EnvironmentProfile, resolveEnvironment } from './environments';
+import { AuthError, ClockSkewError, RateLimitError } from './errors';
+import { OutputSpec } from './output';
+
+export type CheckStatus = 'ok' | 'warn' | 'fail' | 'skip';
+
+export interface DoctorCheck {
+    check: string;
+    status: CheckStatus;
+    detail: string;
+    /** What to change, for warnings and failures */
+    fix?: string;
+}
+
+export interface DoctorOptions {
+    /** API environment profile, see environments.ts */
+    environment?: string;
+    /** .okxdexrc profile, see config.ts */
+    profile?: string;
+    env?: NodeJS.ProcessEnv;
+    /** Time allowed for each network request */
+    timeoutMs?: number;
+}
+
+export const DOCTOR_OUTPUT: OutputSpec<DoctorCheck> = {
+    columns: [
+        { header: 'Status', value: check => check.status === 'fail' ? 'FAIL' : check.status },
+        { header: 'Check', value: check => check.check },
+        { header: 'Detail', value: check => check.detail },
+        { header: 'Fix', value: check => check.fix },
+    ],
+};
+
+const CREDENTIAL_VARIABLES = ['OKX_API_KEY', 'OKX_SECRET_KEY', 'OKX_API_PASSPHRASE', 'OKX_PROJECT_ID'];
+
+const FAMILIES: ChainFamily[] = ['evm', 'solana', 'sui', 'ton', 'tron'];
+
+// Variables read by the library, the scripts and the CLI
+const KNOWN_VARIABLES = [
+    ...CREDENTIAL_VARIABLES,
+    'WALLET_ADDRESS', 'RECEIVING_ADDRESS', 'PRIVATE_KEY', 'WS_ENDPOINT', 'MOCK_SERVER_PORT',
+    'OKX_DEX_ENV', 'OKX_DEX_BASE_URL', 'OKX_DEX_CASSETTE', 'OKX_DEX_CASSETTE_MODE', 'OKX_DEX_CACHE',
+    'OKX_DEX_CACHE_DIR', 'OKX_DEX_OUTPUT', 'OKX_DEX_CONFIG', 'OKX_DEX_PROFILE',
+    ...FAMILIES.map(family => `${family.toUpperCase()}_RPC_URL`),
+    'EVM_SIMULATION_RPC_URL',
+];
+
+// Chains whose swaps are signed locally, so their keys must match the wallet
+const SIGNING_CHAINS = [CHAINS.ETHEREUM, CHAINS.SOLANA, CHAINS.SUI];
+
+const PRIVATE_KEY_FORMATS: Partial<Record<ChainFamily, string>> = {
+    evm: 'Use the 32-byte hex private key of the wallet',
+    solana: 'Use the base58 secret key exported from the wallet (64 bytes)',
+    sui: 'Use the suiprivkey... export of the wallet, or its 32-byte hex private key',
+};
+
+// Endpoints the executors use when none is configured
+const DEFAULT_RPC_URLS: Partial<Record<ChainFamily, string>> = {
+    sui: 'https://fullnode.mainnet.sui.io:443',
+};
+
+// Cheap JSON-RPC call answering whether a node is usable
+const RPC_PROBES: Partial<Record<ChainFamily, string>> = {
+    solana: 'getHealth',
+    sui: 'sui_getLatestCheckpointSequenceNumber',
+    evm: 'eth_chainId',
+};
+
+const SLOW_API_MS = 2_000;
+const SLOW_RPC_MS = 1_000;
+
+export async function runDoctor(options: DoctorOptions = {}): Promise<DoctorCheck[]> {
+    const env = options.env ?? process.env;
+    const timeoutMs = options.timeoutMs ?? 5_000;
+    const checks: DoctorCheck[] = [];
+
+    let profile: Profile = {};
+    try {
+        profile = loadProfile(options.profile, env);
+        checks.push({
+            check: 'Config',
+            status: 'ok',
+            detail: profile.file
+                ? `${profile.name ? `profile "${profile.name}"` : 'no profile selected'} from ${profile.file}`
+                : 'no .okxdexrc; using environment variables',
+        });
+    } catch (error) {
+        checks.push({
+            check: 'Config',
+            status: 'fail',
+            detail: messageOf(error),
+            fix: 'Correct the file or profile named above, or unset OKX_DEX_CONFIG / OKX_DEX_PROFILE',
+        });
+    }
+
+    checks.push(checkVariables(profile, env));
+    checks.push(await checkCredentials(options.environment, env, timeoutMs));
+    for (const chain of SIGNING_CHAINS) {
+        checks.push(await checkWallet(profile, chain, env));
+    }
+    for (const chain of rpcChains(profile)) {
+        checks.push(await checkRpc(profile, chain, env, timeoutMs));
+    }
+    return checks;
+}
+
+// =================
+// Checks
+// =================
+
+function checkVariables(profile: Profile, env: NodeJS.ProcessEnv): DoctorCheck {
+    const known = new Set([
+        ...KNOWN_VARIABLES,
+        ...Object.values(profile.wallets ?? {}).flatMap(wallet => wallet.privateKeyEnv ?? []),
+    ]);
+
+    const misspelled = Object.keys(env).flatMap(name => {
+        if (known.has(name) || name.length < 6 || !/^[A-Z][A-Z0-9_]*$/.test(name)) return [];
+        const match = [...known].find(candidate => editDistance(name, candidate) <= 2);
+        return match ? [`${name} (did you mean ${match}?)`] : [];
+    });
+
+    if (misspelled.length > 0) {
+        return {
+            check: 'Environment',
+            status: 'warn',
+            detail: `set but never read: ${misspelled.join(', ')}`,
+            fix: 'Rename the variables in .env to the suggested names',
+        };
+    }
+    return { check: 'Environment', status: 'ok', detail: 'no misspelled variables' };
+}
+
+async function checkCredentials(environment: string | undefined, env: NodeJS.ProcessEnv, timeoutMs: number): Promise<DoctorCheck> {
+    const check = 'OKX API key';
+    const missing = CREDENTIAL_VARIABLES.filter(name => !env[name]);
+    if (missing.length > 0) {
+        return {
+            check,
+            status: 'fail',
+            detail: `${missing.join(', ')} not set`,
+            fix: 'Copy the key, secret, passphrase and project ID from the OKX Developer Portal into .env',
+        };
+    }
+
+    let environmentProfile: EnvironmentProfile;
+    try {
+        environmentProfile = resolveEnvironment(environment ?? env.OKX_DEX_ENV);
+    } catch (error) {
+        return { check, status: 'fail', detail: messageOf(error), fix: 'Set OKX_DEX_ENV (or --env) to one of the listed environments' };
+    }
+    if (environmentProfile.auth === 'none') {
+        return { check, status: 'skip', detail: `the ${environmentProfile.name} environment does not sign requests` };
+    }
+
+    // Uncached, so the request really reaches the API with this key
+    const client = new OkxDexClient({
+        environment: environmentProfile,
+        credentials: new StaticCredentialProvider(readEnvCredentials(env)),
+        cache: false,
+        cassette: false,
+        timeoutMs,
+    });
+    const started = Date.now();
+    try {
+        await client.getSupportedChain({ chainId: CHAINS.ETHEREUM.chainId });
+    } catch (error) {
+        const detail = messageOf(error);
+        if (error instanceof ClockSkewError) {
+            return { check, status: 'fail', detail, fix: 'Sync the system clock (e.g. enable NTP); signatures include the local time' };
+        }
+        if (error instanceof AuthError) {
+            return {
+                check,
+                status: 'fail',
+                detail,
+                fix: 'Check that OKX_API_KEY, OKX_SECRET_KEY, OKX_API_PASSPHRASE and OKX_PROJECT_ID belong to the same key',
+            };
+        }
+        if (error instanceof RateLimitError) {
+            return { check, status: 'warn', detail, fix: 'Wait a moment and run doctor again' };
+        }
+        return {
+            check,
+            status: 'fail',
+            detail: `cannot reach ${environmentProfile.baseUrl}: ${detail}`,
+            fix: 'Check network access, or OKX_DEX_ENV / OKX_DEX_BASE_URL',
+        };
+    }
+
+    const elapsed = Date.now() - started;
+    if (elapsed > SLOW_API_MS) {
+        return { check, status: 'warn', detail: `signed request accepted, but took ${elapsed} ms`, fix: 'Check network latency to the OKX API' };
+    }
+    return { check, status: 'ok', detail: `signed request to ${environmentProfile.baseUrl} accepted in ${elapsed} ms` };
+}
+
+async function checkWallet(profile: Profile, chain: ChainInfo, env: NodeJS.ProcessEnv): Promise<DoctorCheck> {
+    const check = `${chain.name} wallet`;
+    const { address, privateKey } = walletFor(profile, chain, env);
+    if (!address && !privateKey) {
+        return { check, status: 'skip', detail: 'no wallet configured' };
+    }
+    // WALLET_ADDRESS serves every chain, so one that belongs to another chain is not an error here
+    if (address && !isValidAddress(chain.chainId, address)) {
+        return { check, status: 'skip', detail: `${address} is not a ${chain.name} address` };
+    }
+    if (!privateKey) {
+        return {
+            check,
+            status: 'warn',
+            detail: `${address} has no private key; swaps cannot be signed`,
+            fix: 'Set PRIVATE_KEY, or the variable named by privateKeyEnv of the profile wallet',
+        };
+    }
+
+    let derived: string;
+    try {
+        derived = await deriveAddress(chain, privateKey);
+    } catch (error) {
+        if (!address) {
+            return { check, status: 'skip', detail: `the private key is not a ${chain.name} key` };
+        }
+        return {
+            check,
+            status: 'fail',
+            detail: `the private key for ${address} is not a valid ${chain.name} key: ${messageOf(error)}`,
+            fix: PRIVATE_KEY_FORMATS[chain.family],
+        };
+    }
+
+    if (!address) {
+        return { check, status: 'warn', detail: `the private key belongs to ${derived}, but no address is set`, fix: `Set WALLET_ADDRESS=${derived}` };
+    }
+    if (comparableAddress(chain, derived) !== comparableAddress(chain, address)) {
+        return {
+            check,
+            status: 'fail',
+            detail: `the private key belongs to ${derived}, not ${address}`,
+            fix: `Set WALLET_ADDRESS=${derived}, or use the private key of ${address}`,
+        };
+    }
+    return { check, status: 'ok', detail: `private key matches ${address}` };
+}
+
+async function checkRpc(profile: Profile, chain: ChainInfo, env: NodeJS.ProcessEnv, timeoutMs: number): Promise<DoctorCheck> {
+    const check = `${chain.name} RPC`;
+    const configured = rpcUrlFor(profile, chain, env);
+    // A chain with neither a wallet nor a node of its own is not in use
+    if (!configured && !hasWallet(profile, chain, env)) {
+        return { check, status: 'skip', detail: 'no wallet or RPC URL configured' };
+    }
+    const url = configured ?? DEFAULT_RPC_URLS[chain.family];
+    if (!url) {
+        return {
+            check,
+            status: 'fail',
+            detail: 'no RPC URL configured',
+            fix: `Set ${rpcEnvVar(chain)}, or rpc.${chain.family} in the .okxdexrc profile`,
+        };
+    }
+
+    let host: string;
+    try {
+        const parsed = new URL(url);
+        if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+            return { check, status: 'fail', detail: `${parsed.protocol} URL given`, fix: `${rpcEnvVar(chain)} must be an http(s) URL; websocket endpoints go in WS_ENDPOINT` };
+        }
+        // Only the host is shown, as provider URLs often embed an API key
+        host = parsed.host;
+    } catch {
+        return { check, status: 'fail', detail: 'not a valid URL', fix: `Correct ${rpcEnvVar(chain)} or rpc.${chain.family} in the profile` };
+    }
+    const source = configured ? host : `${host} (public default)`;
+
+    const started = Date.now();
+    let body: { result?: unknown; error?: { code?: number; message?: string } } | null;
+    try {
+        const response = await fetch(url, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: RPC_PROBES[chain.family], params: [] }),
+            signal: AbortSignal.timeout(timeoutMs),
+        });
+        if (!response.ok) {
+            return {
+                check,
+                status: response.status === 429 ? 'warn' : 'fail',
+                detail: `${source} answered HTTP ${response.status}`,
+                fix: response.status === 401 || response.status === 403
+                    ? 'The provider rejected the request; check the API key in the RPC URL'
+                    : 'Check the URL, or switch to another provider',
+            };
+        }
+        body = await response.json();
+    } catch (error) {
+        const timedOut = error instanceof Error && error.name === 'TimeoutError';
+        return {
+            check,
+            status: 'fail',
+            detail: timedOut
+                ? `${source} did not answer within ${timeoutMs} ms`
+                : `cannot reach ${source}: ${messageOf(error).split(url).join(host)}`,
+            fix: 'Check the URL and network access, or switch to another provider',
+        };
+    }
+    const elapsed = Date.now() - started;
+
+    // Proxies and misconfigured endpoints can answer with JSON that is not a JSON-RPC response
+    if (typeof body !== 'object' || body === null || (body.result === undefined && !body.error)) {
+        return {
+            check,
+            status: 'fail',
+            detail: `${source} did not answer with a JSON-RPC response`,
+            fix: 'Check that the URL points at the node itself, or switch to another provider',
+        };
+    }
+    if (body.error) {
+        return {
+            check,
+            status: 'fail',
+            detail: `${source} is unhealthy: ${body.error.message ?? `error ${body.error.code}`}`,
+            fix: 'Switch to another provider until the node recovers',
+        };
+    }
+    if (chain.family === 'evm') {
+        if (typeof body.result !== 'string' || !/^0x[0-9a-f]+$/i.test(body.result)) {
+            return {
+                check,
+                status: 'fail',
+                detail: `${source} answered eth_chainId with ${JSON.stringify(body.result)}, not a hex chain ID`,
+                fix: 'Check that the URL points at an EVM node, or switch to another provider',
+            };
+        }
+        if (BigInt(body.result) !== BigInt(chain.chainId)) {
+            return {
+                check,
+                status: 'fail',
+                detail: `${source} serves chain ${BigInt(body.result)}, not ${chain.name} (${chain.chainId})`,
+                fix: `Point the ${chain.name} RPC URL at a node for chain ${chain.chainId}`,
+            };
+        }
+    }
+    if (elapsed > SLOW_RPC_MS) {
+        return { check, status: 'warn', detail: `${source} healthy but slow (${elapsed} ms)`, fix: 'Use a closer or dedicated RPC provider' };
+    }
+    return { check, status: 'ok', detail: `${source} healthy in ${elapsed} ms` };
+}
+
+// =================
+// Helpers
+// =================
+
+// Whether a wallet address for the chain is set; WALLET_ADDRESS alone may belong to another chain
+function hasWallet(profile: Profile, chain: ChainInfo, env: NodeJS.ProcessEnv): boolean {
+    const { address } = walletFor(profile, chain, env);
+    return address !== undefined && isValidAddress(chain.chainId, address);
+}
+
+// Chains with executors, plus EVM chains given their own RPC URL in the profile
+function rpcChains(profile: Profile): ChainInfo[] {
+    const evmChains = Object.keys(profile.rpc ?? {})
+        .filter(key => !FAMILIES.includes(key as ChainFamily))
+        .map(key => findChain(key))
+        .filter(chain => chain.family === 'evm' && !SIGNING_CHAINS.some(signing => signing.chainId === chain.chainId));
+    return [...SIGNING_CHAINS, ...evmChains];
+}
+
+// Chain SDKs are loaded only for the chains being checked
+async function deriveAddress(chain: ChainInfo, privateKey: string): Promise<string> {
+    switch (chain.family) {
+        case 'solana':
+            return (await import('./solana/solana-keys')).solanaAddressFromPrivateKey(privateKey);
+        case 'sui':
+            return (await import('./sui/sui-keys')).suiAddressFromPrivateKey(privateKey);
+        case 'evm':
+            return (await import('./evm/evm-keys')).evmAddressFromPrivateKey(privateKey);
+        default:
+            throw new Error(`key checks are not supported on ${chain.name}`);
+    }
+}
+
+// Sui addresses may omit leading zeros
+function comparableAddress(chain: ChainInfo, address: string): string {
+    return chain.family === 'sui'
+        ? address.toLowerCase().replace(/^0x/, '').padStart(64, '0')
+        : normalizeAddress(address);
+}
+
+function editDistance(a: string, b: string): number {
+    let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+    for (let i = 1; i <= a.length; i++) {
+        const current = [i];
+        for (let j = 1; j <= b.length; j++) {
+            current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+        }
+        previous = current;
+    }
+    return previous[b.length];
+}
+
+function messageOf(error: unknown): string {
+    return error instanceof Error ? error.message : String(error);
+}
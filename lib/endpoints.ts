@@ -0,0 +1,17 @@
+// Request paths of the OKX API endpoints used by this library
+
+export const ENDPOINTS = {
+    QUOTE: "/api/v5/dex/aggregator/quote",
+    SWAP: "/api/v5/dex/aggregator/swap",
+    SWAP_INSTRUCTION: "/api/v5/dex/aggregator/swap-instruction",
+    APPROVE_TRANSACTION: "/api/v5/dex/aggregator/approve-transaction",
+    ALL_TOKENS: "/api/v5/dex/aggregator/all-tokens",
+    LIQUIDITY: "/api/v5/dex/aggregator/get-liquidity",
+    SUPPORTED_CHAIN: "/api/v5/dex/aggregator/supported/chain",
+    CROSS_CHAIN_QUOTE: "/api/v5/dex/cross-chain/quote",
+    SUPPORTED_BRIDGES: "/api/v5/dex/cross-chain/supported/bridges",
+    BRIDGE_TOKENS: "/api/v5/dex/cross-chain/supported/tokens",
+    BRIDGE_TOKEN_PAIRS: "/api/v5/dex/cross-chain/supported/bridge-tokens-pairs",
+    BROADCAST_TRANSACTION: "/api/v5/dex/pre-transaction/broadcast-transaction",
+    SERVER_TIME: "/api/v5/public/time",
+} as const;
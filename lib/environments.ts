@@ -0,0 +1,77 @@
+/**
+ * Named environment profiles for the OKX DEX API
+ *
+ * A profile sets the base URL, whether requests are signed and the request
+ * timeout. The library-wide default comes from OKX_DEX_ENV (falling back to
+ * production), and OKX_DEX_BASE_URL overrides the base URL of whichever
+ * profile is selected, so every script can be pointed at a staging host or a
+ * local stand-in server without editing source.
+ */
+
+export type AuthMode = 'signed' | 'none';
+
+export interface EnvironmentProfile {
+    name: string;
+    baseUrl: string;
+    auth: AuthMode;
+    timeoutMs: number;
+}
+
+const environments = new Map<string, EnvironmentProfile>([
+    ['production', {
+        name: 'production',
+        baseUrl: 'https://www.okx.com',
+        auth: 'signed',
+        timeoutMs: 10_000,
+    }],
+    ['beta', {
+        name: 'beta',
+        baseUrl: 'https://beta.okex.org',
+        auth: 'none',
+        timeoutMs: 15_000,
+    }],
+    ['local', {
+        name: 'local',
+        baseUrl: 'http://127.0.0.1:8080',
+        auth: 'signed',
+        timeoutMs: 5_000,
+    }],
+]);
+
+let defaultEnvironment: string | undefined;
+
+export function registerEnvironment(profile: EnvironmentProfile): void {
+    environments.set(profile.name, profile);
+}
+
+export function listEnvironments(): EnvironmentProfile[] {
+    return [...environments.values()];
+}
+
+/** Sets the profile used by clients created without an explicit environment */
+export function setDefaultEnvironment(name: string): void {
+    getEnvironment(name);
+    defaultEnvironment = name;
+}
+
+export function getEnvironment(name: string): EnvironmentProfile {
+    const profile = environments.get(name);
+    if (!profile) {
+        const known = [...environments.keys()].join(', ');
+        throw new Error(`Unknown OKX DEX environment "${name}" (known: ${known})`);
+    }
+    return profile;
+}
+
+/**
+ * Resolves a profile name or object, falling back to the default set with
+ * setDefaultEnvironment, then OKX_DEX_ENV, then production.
+ */
+export function resolveEnvironment(environment?: string | EnvironmentProfile): EnvironmentProfile {
+    const profile = typeof environment === 'object'
+        ? environment
+        : getEnvironment(environment ?? defaultEnvironment ?? process.env.OKX_DEX_ENV ?? 'production');
+
+    const baseUrlOverride = process.env.OKX_DEX_BASE_URL;
+    return baseUrlOverride ? { ...profile, baseUrl: baseUrlOverride } : profile;
+}
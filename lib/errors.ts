@@ -0,0 +1,175 @@
+/**
+ * Error hierarchy for the OKX DEX library
+ *
+ * API failures are mapped from the OKX `code`/`msg` pair (or the HTTP status)
+ * to a specific subclass so callers can tell an auth failure from a missing
+ * route or a rate limit. Chain executors raise the RPC, signing and
+ * confirmation variants.
+ */
+
+export interface OkxDexErrorOptions {
+    path?: string;
+    code?: string;
+    status?: number;
+    retryable?: boolean;
+    cause?: unknown;
+}
+
+export class OkxDexError extends Error {
+    /** API request path or RPC method that failed */
+    readonly path?: string;
+    /** OKX response code, when the failure came from the API */
+    readonly code?: string;
+    /** HTTP status of the response, when there was one */
+    readonly status?: number;
+    /** Whether repeating the same request may succeed */
+    readonly retryable: boolean;
+    readonly cause?: unknown;
+
+    constructor(message: string, options: OkxDexErrorOptions = {}) {
+        super(message);
+        this.name = new.target.name;
+        this.path = options.path;
+        this.code = options.code;
+        this.status = options.status;
+        this.retryable = options.retryable ?? false;
+        this.cause = options.cause;
+    }
+}
+
+// =================
+// API Errors
+// =================
+
+/** Invalid API key, passphrase, timestamp or signature */
+export class AuthError extends OkxDexError {}
+
+/**
+ * The server rejected OK-ACCESS-TIMESTAMP as expired or out of range, which
+ * usually means the local clock has drifted. Retryable once the clock offset
+ * has been resynced (see clock.ts).
+ */
+export class ClockSkewError extends AuthError {
+    constructor(message: string, options: OkxDexErrorOptions = {}) {
+        super(message, { retryable: true, ...options });
+    }
+}
+
+export class RateLimitError extends OkxDexError {
+    constructor(message: string, options: OkxDexErrorOptions = {}) {
+        super(message, { retryable: true, ...options });
+    }
+}
+
+export class InvalidParamError extends OkxDexError {}
+
+export class NoRouteError extends OkxDexError {}
+
+export class InsufficientLiquidityError extends OkxDexError {}
+
+/** Non-2xx responses, unparseable bodies, network failures and OKX service outages */
+export class UpstreamHttpError extends OkxDexError {}
+
+// =================
+// Execution Errors
+// =================
+
+export class RpcError extends OkxDexError {
+    constructor(message: string, options: OkxDexErrorOptions = {}) {
+        super(message, { retryable: true, ...options });
+    }
+}
+
+export class SigningError extends OkxDexError {}
+
+export class ConfirmationTimeoutError extends OkxDexError {
+    readonly txId: string;
+
+    constructor(txId: string, message = `Timed out waiting for confirmation of ${txId}`, options: OkxDexErrorOptions = {}) {
+        super(message, { retryable: true, ...options });
+        this.txId = txId;
+    }
+}
+
+/** A swap stopped before signing: it exceeded a pre-trade limit or was declined */
+export class TradeAbortedError extends OkxDexError {
+    readonly reasons: string[];
+
+    constructor(reasons: string[], options: OkxDexErrorOptions = {}) {
+        super(`Swap aborted: ${reasons.join('; ')}`, options);
+        this.reasons = reasons;
+    }
+}
+
+// =================
+// Configuration Errors
+// =================
+
+/** An invalid .okxdexrc file or unknown profile; `path` is the file */
+export class ConfigError extends OkxDexError {}
+
+// =================
+// Mapping
+// =================
+
+const TIMESTAMP_CODES = new Set(["50102", "50112"]);
+const AUTH_CODES = new Set(["50103", "50104", "50105", "50106", "50107", "50111", "50113", "50114"]);
+const RATE_LIMIT_CODES = new Set(["50011", "50061"]);
+const INVALID_PARAM_CODES = new Set(["50014", "51000", "82102", "82103", "82104"]);
+const INSUFFICIENT_LIQUIDITY_CODES = new Set(["82000"]);
+const SERVICE_UNAVAILABLE_CODES = new Set(["50001", "50004", "50013"]);
+
+const CLOCK_SKEW_HINT = "; the local clock may be out of sync with the OKX server";
+
+/**
+ * Maps a failed OKX response to the matching error class, using the code
+ * first and falling back to the message text for codes not listed above.
+ */
+export function errorFromResponse(path: string, code: string, msg: string, status?: number): OkxDexError {
+    const message = `API Error from ${path}: ${msg || "Unknown error"} (code ${code})`;
+    const options = { path, code, status };
+
+    if (TIMESTAMP_CODES.has(code)) return new ClockSkewError(message + CLOCK_SKEW_HINT, options);
+    if (AUTH_CODES.has(code)) return new AuthError(message, options);
+    if (RATE_LIMIT_CODES.has(code)) return new RateLimitError(message, options);
+    if (INVALID_PARAM_CODES.has(code)) return new InvalidParamError(message, options);
+    if (INSUFFICIENT_LIQUIDITY_CODES.has(code)) return new InsufficientLiquidityError(message, options);
+    if (SERVICE_UNAVAILABLE_CODES.has(code)) return new UpstreamHttpError(message, { ...options, retryable: true });
+
+    if (/insufficient liquidity/i.test(msg)) return new InsufficientLiquidityError(message, options);
+    if (/no (available )?route|route not found/i.test(msg)) return new NoRouteError(message, options);
+    if (/too many requests|rate limit/i.test(msg)) return new RateLimitError(message, options);
+    if (/timestamp/i.test(msg)) return new ClockSkewError(message + CLOCK_SKEW_HINT, options);
+    if (/signature|api ?key|passphrase/i.test(msg)) return new AuthError(message, options);
+    if (/param/i.test(msg)) return new InvalidParamError(message, options);
+
+    return new OkxDexError(message, options);
+}
+
+/** Maps a non-2xx HTTP response without an OKX error body */
+export function errorFromStatus(path: string, status: number, body: string): OkxDexError {
+    const message = `HTTP ${status} from ${path}: ${body}`;
+    const options = { path, status };
+
+    if (status === 429) return new RateLimitError(message, options);
+    if (status === 401 || status === 403) return new AuthError(message, options);
+    return new UpstreamHttpError(message, { ...options, retryable: status >= 500 });
+}
+
+export function isRetryable(error: unknown): boolean {
+    return error instanceof OkxDexError ? error.retryable : true;
+}
+
+/**
+ * Runs an RPC call and converts any failure into an RpcError carrying the
+ * method name, leaving errors from this hierarchy untouched.
+ */
+export async function withRpcErrors<T>(method: string, operation: () => Promise<T>): Promise<T> {
+    try {
+        return await operation();
+    } catch (error) {
+        if (error instanceof OkxDexError) throw error;
+        const reason = error instanceof Error ? error.message : String(error);
+        throw new RpcError(`RPC ${method} failed: ${reason}`, { path: method, cause: error });
+    }
+}
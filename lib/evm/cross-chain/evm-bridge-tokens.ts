@@ -1,22 +1,16 @@
 // sui-supported-tokens.ts
-import { getHeaders } from '../../shared';
+import { OkxDexClient } from '../../client';
+import { CHAINS } from '../../chains';
+import { BRIDGE_TOKEN_OUTPUT, printOutput } from '../../output';
 
 async function main() {
     try {
-        const chainId = '1'; // Ethereum Chain ID
-        const timestamp = new Date().toISOString();
-        const requestPath = "/api/v5/dex/cross-chain/supported/tokens";
-        const queryString = chainId ? `?chainId=${chainId}` : '';
-        const headers = getHeaders(timestamp, "GET", requestPath, queryString);
+        const client = new OkxDexClient();
+        const chainId = CHAINS.ETHEREUM.chainId;
 
-        console.log('Getting supported tokens for Ethereum...');
-        const response = await fetch(`https://www.okx.com${requestPath}${queryString}`, {
-            method: "GET",
-            headers
-        });
-
-        const data = await response.json();
-        console.log('Supported tokens response:', JSON.stringify(data, null, 2));
+        console.error('Getting supported tokens for Ethereum...');
+        const data = await client.getBridgeTokens({ chainId });
+        printOutput(data, BRIDGE_TOKEN_OUTPUT);
     } catch (error) {
         console.error('Script failed:', error);
         process.exit(1);
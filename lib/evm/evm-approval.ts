@@ -0,0 +1,116 @@
+// ERC-20 approvals for the EVM swap executor
+import { Contract, MaxUint256, Provider, Wallet } from "ethers";
+import { OkxDexClient } from "../client";
+import { ChainInfo, isNativeToken, normalizeAddress } from "../chains";
+import { ENDPOINTS } from "../endpoints";
+import { RpcError, UpstreamHttpError } from "../errors";
+import { withEvmRpcErrors } from "./evm-errors";
+import { EvmTransactionManager } from "./evm-transactions";
+
+const ERC20_ABI = [
+    "function allowance(address owner, address spender) view returns (uint256)",
+    "function approve(address spender, uint256 amount) returns (bool)"
+];
+
+/**
+ * Tokens whose approve reverts when changing one non-zero allowance to
+ * another, keyed by chain ID; their allowance is reset to zero first
+ */
+const RESET_TO_ZERO_TOKENS: Record<string, string[]> = {
+    '1': [
+        '0xdac17f958d2ee523a2206206994597c13d831ec7', // USDT
+        '0xdd974d5c2e2928dea5f71b9825b8b646686bd200', // KNC (legacy)
+    ],
+};
+
+const DEFAULT_CONFIRMATION_TIMEOUT = 180000; // 3 minutes
+
+export interface ApprovalOptions {
+    /** Approve the maximum amount, so later swaps of the token need no approval; the default approves the amount only */
+    unlimited?: boolean;
+    confirmationTimeoutMs?: number;
+}
+
+export interface ApprovalResult {
+    /** Contract given the allowance: the OKX DEX token approval contract */
+    spender: string;
+    /** Allowance before any approval was sent */
+    previousAllowance: bigint;
+    allowance: bigint;
+    /** Approval transactions sent, the reset to zero first; empty when the allowance already sufficed */
+    txIds: string[];
+}
+
+export async function getAllowance(provider: Provider, token: string, owner: string, spender: string): Promise<bigint> {
+    const contract = new Contract(token, ERC20_ABI, provider);
+    return withEvmRpcErrors('allowance', () => contract.allowance(owner, spender) as Promise<bigint>);
+}
+
+export function requiresAllowanceReset(chainId: string, token: string): boolean {
+    return (RESET_TO_ZERO_TOKENS[chainId] ?? []).includes(normalizeAddress(token));
+}
+
+/**
+ * Makes sure the OKX DEX router may spend `amount` of a token from the
+ * wallet. The spender and approval calldata come from the approve-transaction
+ * endpoint; when the current allowance falls short, the approval is sent and
+ * confirmed before this returns, so the swap can follow. Approvals go
+ * through the manager, which assigns their nonces ahead of the swap's.
+ * Native tokens need no approval.
+ */
+export async function ensureAllowance(
+    client: OkxDexClient,
+    manager: EvmTransactionManager,
+    wallet: Wallet,
+    chain: ChainInfo,
+    token: string,
+    amount: bigint,
+    options: ApprovalOptions = {}
+): Promise<ApprovalResult | undefined> {
+    if (isNativeToken(chain.chainId, token)) return undefined;
+
+    const { provider } = manager;
+    const timeoutMs = options.confirmationTimeoutMs ?? DEFAULT_CONFIRMATION_TIMEOUT;
+
+    const [approval] = await client.getApproveTransaction({
+        chainId: chain.chainId,
+        tokenContractAddress: token,
+        approveAmount: (options.unlimited ? MaxUint256 : amount).toString()
+    });
+    if (!approval) {
+        throw new UpstreamHttpError("No approve transaction returned", { path: ENDPOINTS.APPROVE_TRANSACTION });
+    }
+
+    const spender = approval.dexContractAddress;
+    const previousAllowance = await getAllowance(provider, token, wallet.address, spender);
+    if (previousAllowance >= amount) {
+        return { spender, previousAllowance, allowance: previousAllowance, txIds: [] };
+    }
+
+    const txIds: string[] = [];
+    if (previousAllowance > 0n && requiresAllowanceReset(chain.chainId, token)) {
+        // The endpoint only builds approvals of a positive amount, so the reset is encoded here
+        const reset = await manager.send(wallet, {
+            to: token,
+            data: new Contract(token, ERC20_ABI).interface.encodeFunctionData("approve", [spender, 0n])
+        });
+        txIds.push((await manager.wait(reset, timeoutMs)).hash);
+    }
+
+    const sent = await manager.send(wallet, {
+        to: token,
+        data: approval.data,
+        gasLimit: approval.gasLimit ? BigInt(approval.gasLimit) : undefined
+    });
+    txIds.push((await manager.wait(sent, timeoutMs)).hash);
+
+    // Some tokens return success from approve without changing the allowance
+    const allowance = await getAllowance(provider, token, wallet.address, spender);
+    if (allowance < amount) {
+        throw new RpcError(`Approval of ${spender} confirmed, but the allowance is ${allowance}, below ${amount}`, {
+            path: 'allowance',
+            retryable: false
+        });
+    }
+    return { spender, previousAllowance, allowance, txIds };
+}
@@ -0,0 +1,41 @@
+// Error mapping shared by the EVM executors
+import { EthersError, ErrorCode, isError } from "ethers";
+import { OkxDexError, RpcError } from "../errors";
+
+// Failures that repeat when the same request is sent again
+const PERMANENT_ERRORS: ErrorCode[] = [
+    'CALL_EXCEPTION',
+    'INSUFFICIENT_FUNDS',
+    'NONCE_EXPIRED',
+    'REPLACEMENT_UNDERPRICED',
+    'INVALID_ARGUMENT'
+];
+
+/**
+ * Runs an ethers call and converts any failure into an RpcError carrying the
+ * method name, like withRpcErrors. Reverts, insufficient funds and spent
+ * nonces are not retryable.
+ */
+export async function withEvmRpcErrors<T>(method: string, operation: () => Promise<T>): Promise<T> {
+    try {
+        return await operation();
+    } catch (error) {
+        if (error instanceof OkxDexError) throw error;
+        throw new RpcError(`RPC ${method} failed: ${evmErrorMessage(error)}`, {
+            path: method,
+            retryable: !PERMANENT_ERRORS.some(code => isError(error, code)),
+            cause: error
+        });
+    }
+}
+
+// ethers messages embed the whole request; the short message is the reason
+function evmErrorMessage(error: unknown): string {
+    if (!(error instanceof Error)) return String(error);
+    // Node errors ethers cannot classify are kept as the JSON-RPC error
+    const nodeError = (error as { error?: { message?: unknown } }).error;
+    if (isError(error, 'UNKNOWN_ERROR') && typeof nodeError?.message === 'string') {
+        return nodeError.message;
+    }
+    return (error as Partial<EthersError>).shortMessage ?? error.message;
+}
@@ -0,0 +1,15 @@
+// Key handling shared by the EVM executor and the doctor command
+import { Wallet } from "ethers";
+
+/** Address of a 32-byte hex-encoded private key (with or without 0x), as used in PRIVATE_KEY */
+export function evmAddressFromPrivateKey(privateKey: string): string {
+    return evmWallet(privateKey).address;
+}
+
+export function evmWallet(privateKey: string): Wallet {
+    const hex = privateKey.trim().replace(/^0x/, '');
+    if (!/^[0-9a-fA-F]{64}$/.test(hex)) {
+        throw new Error('expected 32 hex-encoded bytes');
+    }
+    return new Wallet(`0x${hex}`);
+}
@@ -0,0 +1,156 @@
+// eth_call simulation and revert decoding for the EVM swap executor
+import { Interface, JsonRpcProvider, TransactionRequest, isError } from "ethers";
+import { formatUnits } from "../amount";
+import { RpcError } from "../errors";
+import { BalanceChange, SimulationReport, formatChange } from "../simulation";
+import { withEvmRpcErrors } from "./evm-errors";
+
+/**
+ * Custom errors of common token and approval contracts. Error(string) and
+ * Panic(uint256) are decoded by ethers; callers can add other contracts'
+ * errors with the errorAbi option.
+ */
+const KNOWN_ERRORS = [
+    // OpenZeppelin ERC-20
+    "error ERC20InsufficientBalance(address sender, uint256 balance, uint256 needed)",
+    "error ERC20InsufficientAllowance(address spender, uint256 allowance, uint256 needed)",
+    "error ERC20InvalidSender(address sender)",
+    "error ERC20InvalidReceiver(address receiver)",
+    "error SafeERC20FailedOperation(address token)",
+    // Permit2
+    "error InsufficientAllowance(uint256 amount)",
+    "error AllowanceExpired(uint256 deadline)",
+    "error SignatureExpired(uint256 signatureDeadline)",
+    "error InvalidNonce()",
+];
+
+// Solidity panic codes
+const PANIC_REASONS: Record<string, string> = {
+    '1': 'assertion failed',
+    '17': 'arithmetic overflow or underflow',
+    '18': 'division by zero',
+    '33': 'invalid enum value',
+    '34': 'invalid storage byte array',
+    '49': 'pop from an empty array',
+    '50': 'array index out of bounds',
+    '65': 'out of memory',
+    '81': 'call to an invalid function',
+};
+
+// Length of the hex return data of a single uint256, as the OKX DEX router's swap functions return
+const UINT256_RESULT_LENGTH = 2 + 64;
+
+export interface SwapToken {
+    symbol: string;
+    decimals: number;
+}
+
+export interface EvmSimulationOptions {
+    fromToken?: SwapToken;
+    toToken?: SwapToken;
+    /** Input amount in base units, reported as the input token's change */
+    fromAmount?: bigint;
+    /** Output in base units the swap must return, as tx.minReceiveAmount of the swap endpoint */
+    minReceiveAmount?: bigint;
+    /** Extra error fragments to decode, e.g. "error TooLittleReceived()" */
+    errorAbi?: readonly string[];
+}
+
+/**
+ * Runs a transaction with eth_call against the latest state and reports
+ * whether it would succeed. Reverts are decoded into their reason or custom
+ * error. The swap's output is read from the router's uint256 return value
+ * and checked against minReceiveAmount; when the return data is not a
+ * single uint256, a simulation with a minimum fails as unverified.
+ */
+export async function simulateEvmTransaction(
+    provider: JsonRpcProvider,
+    request: TransactionRequest,
+    options: EvmSimulationOptions = {}
+): Promise<SimulationReport> {
+    const { fromToken, toToken, fromAmount, minReceiveAmount } = options;
+
+    let returnData: string;
+    try {
+        returnData = await provider.call(request);
+    } catch (error) {
+        if (!isError(error, 'CALL_EXCEPTION')) {
+            return withEvmRpcErrors('eth_call', () => Promise.reject(error));
+        }
+        // ethers reports every failed eth_call as a call exception; without revert data, only the node can say it reverted
+        const nodeMessage = (error.info as { error?: { message?: unknown } } | undefined)?.error?.message;
+        if (!error.data && typeof nodeMessage === 'string' && !/revert/i.test(nodeMessage)) {
+            throw new RpcError(`RPC eth_call failed: ${nodeMessage}`, { path: 'eth_call', cause: error });
+        }
+        return { success: false, error: `reverted: ${decodeRevert(error.data, options.errorAbi)}`, balanceChanges: [], logs: [] };
+    }
+
+    // Only an estimate: gas is not reported by eth_call
+    const gas = await provider.estimateGas(request).catch(() => undefined);
+    const report: SimulationReport = {
+        success: true,
+        balanceChanges: [],
+        logs: [],
+        gasUsed: gas === undefined ? undefined : `${gas} gas (estimated)`,
+    };
+    if (fromToken && fromAmount !== undefined) {
+        report.balanceChanges.push(tokenChange(fromToken, -fromAmount));
+    }
+
+    if (returnData.length !== UINT256_RESULT_LENGTH) {
+        // An output that can't be read can't be shown to meet the minimum
+        if (minReceiveAmount !== undefined) {
+            report.success = false;
+            report.error = 'output amount not readable from the return data, so the minimum output could not be verified';
+        } else {
+            report.logs.push('Output amount not readable from the return data');
+        }
+        return report;
+    }
+    const output = BigInt(returnData);
+    if (toToken) {
+        report.balanceChanges.push(tokenChange(toToken, output));
+    }
+    if (minReceiveAmount !== undefined) {
+        const format = (amount: bigint) => toToken ? `${formatUnits(amount, toToken.decimals)} ${toToken.symbol}` : `${amount}`;
+        report.logs.push(`Output ${format(output)}, minimum ${format(minReceiveAmount)}`);
+        if (output < minReceiveAmount) {
+            report.success = false;
+            report.error = `simulated output ${format(output)} is below the minimum of ${format(minReceiveAmount)}`;
+        }
+    }
+    return report;
+}
+
+/**
+ * Readable reason of revert data: the Error(string) message, the Panic code's
+ * meaning, or a known custom error with its arguments. Unknown custom errors
+ * are given by selector.
+ */
+export function decodeRevert(data: string | null | undefined, errorAbi: readonly string[] = []): string {
+    if (!data || data === '0x') {
+        return 'no reason given';
+    }
+
+    let decoded;
+    try {
+        decoded = new Interface([...KNOWN_ERRORS, ...errorAbi]).parseError(data);
+    } catch {
+        decoded = null;
+    }
+    if (!decoded) {
+        return `unknown custom error ${data.slice(0, 10)} (data ${data})`;
+    }
+    if (decoded.name === 'Error') {
+        return String(decoded.args[0]);
+    }
+    if (decoded.name === 'Panic') {
+        const code = String(decoded.args[0]);
+        return `panic 0x${BigInt(code).toString(16)} (${PANIC_REASONS[code] ?? 'unknown panic code'})`;
+    }
+    return `${decoded.name}(${decoded.args.map(arg => String(arg)).join(', ')})`;
+}
+
+function tokenChange({ symbol, decimals }: SwapToken, delta: bigint): BalanceChange {
+    return { symbol, change: formatChange(delta, decimals) };
+}
@@ -0,0 +1,182 @@
+// Nonce handling and replacement of the EVM transaction manager against a fake JSON-RPC node
+import assert from 'node:assert/strict';
+import http from 'node:http';
+import { AddressInfo } from 'node:net';
+import { after, before, beforeEach, describe, it } from 'node:test';
+import { JsonRpcProvider, Transaction, Wallet } from 'ethers';
+import { EvmTransactionManager } from './evm-transactions';
+
+const RECIPIENT = '0x' + '11'.repeat(20);
+const BASE_FEE = 1_000_000_000n;
+const PRIORITY_FEE = 100_000_000n;
+
+/** eth_* stand-in that accepts transactions into a pending pool and mines them on request */
+class FakeEvmNode {
+    /** Transactions accepted by eth_sendRawTransaction, in order */
+    readonly sent: Transaction[] = [];
+    readonly mined = new Set<string>();
+    /** Node error for the next eth_sendRawTransaction */
+    rejectNextSend?: string;
+    /** Mine the first pending transaction when a replacement arrives, as if it won the race */
+    mineOnReplacement = false;
+
+    private readonly server = http.createServer((req, res) => {
+        let body = '';
+        req.on('data', chunk => body += chunk);
+        req.on('end', () => {
+            const payload = JSON.parse(body);
+            const responses = (Array.isArray(payload) ? payload : [payload]).map(message => this.answer(message));
+            res.setHeader('content-type', 'application/json');
+            res.end(JSON.stringify(Array.isArray(payload) ? responses : responses[0]));
+        });
+    });
+
+    async start(): Promise<string> {
+        await new Promise<void>(resolve => this.server.listen(0, '127.0.0.1', resolve));
+        return `http://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+    }
+
+    stop(): Promise<void> {
+        return new Promise(resolve => this.server.close(() => resolve()));
+    }
+
+    reset(): void {
+        this.sent.length = 0;
+        this.mined.clear();
+        this.rejectNextSend = undefined;
+        this.mineOnReplacement = false;
+    }
+
+    private answer({ id, method, params }: { id: number; method: string; params: any[] }) {
+        const result = (value: unknown) => ({ jsonrpc: '2.0', id, result: value });
+        const error = (message: string) => ({ jsonrpc: '2.0', id, error: { code: -32000, message } });
+        const minedNonces = this.sent.filter(tx => this.mined.has(tx.hash!)).length;
+
+        switch (method) {
+            case 'eth_chainId':
+                return result('0x1');
+            case 'eth_blockNumber':
+                return result('0x10');
+            case 'eth_feeHistory':
+                return result({ baseFeePerGas: [toHex(BASE_FEE), toHex(BASE_FEE)], reward: [[toHex(PRIORITY_FEE)]] });
+            case 'eth_estimateGas':
+                return result('0x5208');
+            case 'eth_getTransactionCount':
+                return result(toHex(params[1] === 'pending' ? new Set(this.sent.map(tx => tx.nonce)).size : minedNonces));
+            case 'eth_sendRawTransaction': {
+                const tx = Transaction.from(params[0]);
+                if (this.rejectNextSend) {
+                    const message = this.rejectNextSend;
+                    this.rejectNextSend = undefined;
+                    return error(message);
+                }
+                const replaced = this.sent.find(pending => pending.nonce === tx.nonce);
+                if (replaced && this.mineOnReplacement) {
+                    this.mined.add(replaced.hash!);
+                    return error('nonce too low');
+                }
+                this.sent.push(tx);
+                return result(tx.hash);
+            }
+            case 'eth_getTransactionByHash':
+                return result(null);
+            case 'eth_getTransactionReceipt':
+                return result(this.mined.has(params[0]) ? receipt(this.sent.find(tx => tx.hash === params[0])!) : null);
+            default:
+                return { jsonrpc: '2.0', id, error: { code: -32601, message: `Method not found: ${method}` } };
+        }
+    }
+}
+
+function toHex(value: bigint | number): string {
+    return '0x' + value.toString(16);
+}
+
+function receipt(tx: Transaction) {
+    return {
+        transactionHash: tx.hash,
+        blockHash: '0x' + 'ab'.repeat(32),
+        blockNumber: '0x10',
+        transactionIndex: '0x0',
+        from: tx.from,
+        to: tx.to,
+        gasUsed: '0x5208',
+        cumulativeGasUsed: '0x5208',
+        effectiveGasPrice: toHex(BASE_FEE + PRIORITY_FEE),
+        logs: [],
+        logsBloom: '0x' + '00'.repeat(256),
+        status: '0x1',
+        type: '0x2',
+        contractAddress: null,
+    };
+}
+
+describe('EvmTransactionManager', () => {
+    const node = new FakeEvmNode();
+    let provider: JsonRpcProvider;
+    let manager: EvmTransactionManager;
+    let wallet: Wallet;
+
+    before(async () => {
+        provider = new JsonRpcProvider(await node.start(), 1, { staticNetwork: true, cacheTimeout: -1 });
+    });
+
+    after(async () => {
+        provider.destroy();
+        await node.stop();
+    });
+
+    beforeEach(() => {
+        node.reset();
+        manager = new EvmTransactionManager(provider, { pollIntervalMs: 10 });
+        wallet = new Wallet(Wallet.createRandom().privateKey, provider);
+    });
+
+    const transfer = { to: RECIPIENT, value: 1n, chainId: 1n };
+
+    it('hands out the nonce of a failed send again', async () => {
+        node.rejectNextSend = 'insufficient funds for gas * price + value';
+        await assert.rejects(manager.send(wallet, transfer), { name: 'RpcError', retryable: false });
+
+        const tx = await manager.send(wallet, transfer);
+        assert.equal(tx.nonce, 0);
+        assert.deepEqual(node.sent.map(sent => sent.nonce), [0]);
+    });
+
+    it('gives concurrent sends different nonces', async () => {
+        const txs = await Promise.all([manager.send(wallet, transfer), manager.send(wallet, transfer)]);
+
+        assert.deepEqual(txs.map(tx => tx.nonce).sort(), [0, 1]);
+        assert.deepEqual(node.sent.map(sent => sent.nonce).sort(), [0, 1]);
+    });
+
+    it('raises both fees by at least 15% when speeding up', async () => {
+        const tx = await manager.send(wallet, transfer);
+        const original = node.sent[0];
+
+        await manager.speedUp(wallet, tx);
+
+        const replacement = node.sent[1];
+        assert.equal(replacement.nonce, original.nonce);
+        assert.ok(replacement.maxFeePerGas! * 100n >= original.maxFeePerGas! * 115n);
+        assert.ok(replacement.maxPriorityFeePerGas! * 100n >= original.maxPriorityFeePerGas! * 115n);
+        assert.deepEqual(tx.hashes, [original.hash, replacement.hash]);
+    });
+
+    it('keeps waiting for the original when it is mined before its replacement', async () => {
+        const tx = await manager.send(wallet, transfer);
+        const original = tx.hash;
+        await assert.rejects(manager.wait(tx, 30), { name: 'ConfirmationTimeoutError' });
+
+        node.mineOnReplacement = true;
+        await manager.speedUp(wallet, tx);
+
+        assert.equal(tx.hash, original);
+        assert.deepEqual(tx.hashes, [original]);
+        assert.equal((await manager.wait(tx, 1_000)).hash, original);
+
+        // Nothing is broadcast for a transaction already mined
+        await manager.cancel(wallet, tx);
+        assert.equal(node.sent.length, 1);
+    });
+});
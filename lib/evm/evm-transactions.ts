@@ -0,0 +1,367 @@
+/**
+ * Fees, gas limits and nonces for EVM transactions
+ *
+ * The manager prices transactions from eth_feeHistory, pads gas limits and
+ * hands out nonces per sender, so concurrent swaps from one wallet never
+ * share a nonce. A transaction it sent can be sped up or cancelled by
+ * replacement: a new transaction with the same nonce and higher fees, of
+ * which the node keeps only the best paying.
+ */
+
+import { JsonRpcProvider, Transaction, TransactionReceipt, TransactionRequest, Wallet, toQuantity } from 'ethers';
+import { normalizeAddress } from '../chains';
+import { ConfirmationTimeoutError, InvalidParamError, RpcError, SigningError, isRetryable } from '../errors';
+import { withEvmRpcErrors } from './evm-errors';
+
+export type FeeEstimate =
+    | { type: 2; maxFeePerGas: bigint; maxPriorityFeePerGas: bigint }
+    // Chains without EIP-1559 base fees
+    | { type: 0; gasPrice: bigint };
+
+export interface TransactionManagerOptions {
+    /** Recent blocks whose priority fees are sampled (default 10) */
+    feeHistoryBlocks?: number;
+    /** Percentile of each block's priority fees to pay (default 50) */
+    priorityFeePercentile?: number;
+    /** Lowest priority fee to pay, in wei (default 0) */
+    minPriorityFeePerGas?: bigint;
+    /** Multiple of the next base fee the fee cap allows, so the transaction stays valid while base fees rise (default 2) */
+    baseFeeMultiplier?: number;
+    /** Percentage added to estimated or given gas limits (default 20) */
+    gasLimitBufferPercent?: number;
+    /** Fee increase of a replacement over the replaced transaction; nodes require at least 10 (default 15) */
+    replacementBumpPercent?: number;
+    /** Time between receipt checks while waiting (default 2000 ms) */
+    pollIntervalMs?: number;
+}
+
+/** A transaction sent through the manager; speedUp and cancel update it in place */
+export interface ManagedTransaction {
+    from: string;
+    nonce: number;
+    /** Hash of the latest version sent */
+    hash: string;
+    /** Every version sent with this nonce, oldest first; whichever is mined settles the nonce */
+    hashes: string[];
+    /** Request of the latest version, with its fees, gas limit and nonce */
+    request: TransactionRequest;
+}
+
+const DEFAULT_OPTIONS: Required<TransactionManagerOptions> = {
+    feeHistoryBlocks: 10,
+    priorityFeePercentile: 50,
+    minPriorityFeePerGas: 0n,
+    baseFeeMultiplier: 2,
+    gasLimitBufferPercent: 20,
+    replacementBumpPercent: 15,
+    pollIntervalMs: 2000,
+};
+
+const MAX_BROADCAST_ATTEMPTS = 3;
+const BROADCAST_RETRY_DELAY = 1000; // 1 second, growing with each attempt
+
+// A plain transfer, as used to cancel
+const TRANSFER_GAS_LIMIT = 21000n;
+
+interface FeeHistory {
+    baseFeePerGas?: string[];
+    reward?: string[][];
+}
+
+export class EvmTransactionManager {
+    readonly provider: JsonRpcProvider;
+    private readonly options: Required<TransactionManagerOptions>;
+    // Per sender: the next nonce to hand out, nonces handed out but never sent, and the lock serializing both
+    private readonly nextNonces = new Map<string, number>();
+    private readonly releasedNonces = new Map<string, number[]>();
+    private readonly nonceLocks = new Map<string, Promise<unknown>>();
+
+    constructor(provider: JsonRpcProvider, options: TransactionManagerOptions = {}) {
+        this.provider = provider;
+        this.options = { ...DEFAULT_OPTIONS, ...options };
+    }
+
+    /**
+     * Fees for a transaction in the next blocks: the chosen percentile of
+     * recent priority fees, on top of a multiple of the next base fee. Chains
+     * without base fees are priced with eth_gasPrice.
+     */
+    async estimateFees(): Promise<FeeEstimate> {
+        const { feeHistoryBlocks, priorityFeePercentile, minPriorityFeePerGas, baseFeeMultiplier } = this.options;
+        // Nodes of chains without EIP-1559 reject eth_feeHistory or report no base fee
+        const history: FeeHistory | undefined = await this.provider
+            .send('eth_feeHistory', [toQuantity(feeHistoryBlocks), 'latest', [priorityFeePercentile]])
+            .catch(() => undefined);
+        const nextBaseFee = history?.baseFeePerGas?.length
+            ? BigInt(history.baseFeePerGas[history.baseFeePerGas.length - 1])
+            : 0n;
+
+        if (nextBaseFee === 0n) {
+            const gasPrice = await withEvmRpcErrors('eth_gasPrice', () => this.provider.send('eth_gasPrice', []));
+            return { type: 0, gasPrice: BigInt(gasPrice) };
+        }
+
+        const rewards = (history?.reward ?? []).map(([reward]) => BigInt(reward ?? 0)).sort(compareBigInt);
+        const medianReward = rewards.length > 0 ? rewards[Math.floor(rewards.length / 2)] : 0n;
+        const maxPriorityFeePerGas = medianReward > minPriorityFeePerGas ? medianReward : minPriorityFeePerGas;
+        return {
+            type: 2,
+            maxFeePerGas: nextBaseFee * BigInt(Math.round(baseFeeMultiplier * 100)) / 100n + maxPriorityFeePerGas,
+            maxPriorityFeePerGas,
+        };
+    }
+
+    /** The request's gas limit, else the node's estimate, plus the buffer */
+    async gasLimit(request: TransactionRequest): Promise<bigint> {
+        const limit = request.gasLimit != null
+            ? BigInt(request.gasLimit)
+            : await withEvmRpcErrors('eth_estimateGas', () => this.provider.estimateGas(request));
+        return addPercent(limit, this.options.gasLimitBufferPercent);
+    }
+
+    /**
+     * Prices, signs and broadcasts a transaction with the sender's next
+     * nonce. Fee fields of the request are replaced by the estimate. A nonce
+     * whose transaction never reaches the node is handed out again.
+     */
+    async send(wallet: Wallet, request: TransactionRequest): Promise<ManagedTransaction> {
+        const from = wallet.address;
+        const [fees, gasLimit] = await Promise.all([
+            this.estimateFees(),
+            this.gasLimit({ ...request, from }),
+        ]);
+
+        const nonce = await this.reserveNonce(from);
+        try {
+            return await this.broadcast(wallet, { ...request, ...withoutFees(), ...fees, gasLimit, nonce }, []);
+        } catch (error) {
+            this.releaseNonce(from, nonce);
+            throw error;
+        }
+    }
+
+    /**
+     * Resends a pending transaction with higher fees; updates and returns tx.
+     * When a version is already mined, nothing is sent and tx is unchanged.
+     */
+    async speedUp(wallet: Wallet, tx: ManagedTransaction): Promise<ManagedTransaction> {
+        return this.replace(wallet, tx, tx.request);
+    }
+
+    /** Replaces a pending transaction with an empty transfer to the sender, like speedUp; updates and returns tx */
+    async cancel(wallet: Wallet, tx: ManagedTransaction): Promise<ManagedTransaction> {
+        return this.replace(wallet, tx, {
+            chainId: tx.request.chainId,
+            to: tx.from,
+            value: 0n,
+            data: '0x',
+            gasLimit: TRANSFER_GAS_LIMIT,
+        });
+    }
+
+    /** A pending transaction sent elsewhere, e.g. by an earlier run, so it can be sped up or cancelled */
+    async track(hash: string): Promise<ManagedTransaction> {
+        const sent = await withEvmRpcErrors('eth_getTransactionByHash', () => this.provider.getTransaction(hash));
+        if (!sent) {
+            throw new InvalidParamError(`Transaction ${hash} not found; it was dropped or never reached this node`);
+        }
+        if (sent.blockNumber !== null) {
+            throw new InvalidParamError(`Transaction ${hash} is already mined in block ${sent.blockNumber}`);
+        }
+
+        const fees = sent.type === 2
+            ? { type: 2, maxFeePerGas: sent.maxFeePerGas, maxPriorityFeePerGas: sent.maxPriorityFeePerGas }
+            : { type: sent.type, gasPrice: sent.gasPrice };
+        return {
+            from: sent.from,
+            nonce: sent.nonce,
+            hash,
+            hashes: [hash],
+            request: {
+                chainId: sent.chainId,
+                to: sent.to,
+                data: sent.data,
+                value: sent.value,
+                gasLimit: sent.gasLimit,
+                nonce: sent.nonce,
+                ...fees,
+            },
+        };
+    }
+
+    /**
+     * Waits for any version of the transaction to be mined, including
+     * replacements sent while waiting. A timeout raises
+     * ConfirmationTimeoutError; a revert, or the nonce being used by another
+     * transaction, raises a non-retryable RpcError.
+     */
+    async wait(tx: ManagedTransaction, timeoutMs: number): Promise<TransactionReceipt> {
+        const deadline = Date.now() + timeoutMs;
+        while (true) {
+            // Read before the receipts, so a nonce settled by one of them is seen with its receipt
+            const minedNonces = await withEvmRpcErrors('eth_getTransactionCount', () =>
+                this.provider.getTransactionCount(tx.from, 'latest')
+            );
+
+            for (const hash of [...tx.hashes].reverse()) {
+                const receipt = await withEvmRpcErrors('eth_getTransactionReceipt', () =>
+                    this.provider.getTransactionReceipt(hash)
+                );
+                if (!receipt) continue;
+                if (receipt.status !== 1) {
+                    throw new RpcError(`Transaction ${hash} reverted in block ${receipt.blockNumber}`, {
+                        path: 'eth_getTransactionReceipt',
+                        retryable: false,
+                    });
+                }
+                return receipt;
+            }
+
+            if (minedNonces > tx.nonce) {
+                throw new RpcError(`Nonce ${tx.nonce} of ${tx.from} was used by another transaction; ${tx.hash} will not be mined`, {
+                    path: 'eth_getTransactionCount',
+                    retryable: false,
+                });
+            }
+            const remaining = deadline - Date.now();
+            if (remaining <= 0) {
+                throw new ConfirmationTimeoutError(tx.hash, `Timed out after ${timeoutMs} ms waiting for ${tx.hash}`, {
+                    path: 'eth_getTransactionReceipt',
+                });
+            }
+            await new Promise(resolve => setTimeout(resolve, Math.min(this.options.pollIntervalMs, remaining)));
+        }
+    }
+
+    // =================
+    // Helpers
+    // =================
+
+    private async replace(wallet: Wallet, tx: ManagedTransaction, request: TransactionRequest): Promise<ManagedTransaction> {
+        if (normalizeAddress(wallet.address) !== normalizeAddress(tx.from)) {
+            throw new SigningError(`Transaction ${tx.hash} was sent by ${tx.from}, but the private key belongs to ${wallet.address}`);
+        }
+        if (await this.isMined(tx)) return tx;
+
+        // Pay the current rate when it beats the minimum bump over the replaced fees
+        const current = await this.estimateFees();
+        const bump = this.options.replacementBumpPercent;
+        const previous = tx.request;
+        let fees: FeeEstimate;
+        if (previous.type === 2) {
+            const maxPriorityFeePerGas = maxBigInt(addPercent(BigInt(previous.maxPriorityFeePerGas ?? 0), bump),
+                current.type === 2 ? current.maxPriorityFeePerGas : 0n);
+            const maxFeePerGas = maxBigInt(addPercent(BigInt(previous.maxFeePerGas ?? 0), bump),
+                current.type === 2 ? current.maxFeePerGas : current.gasPrice, maxPriorityFeePerGas);
+            fees = { type: 2, maxFeePerGas, maxPriorityFeePerGas };
+        } else {
+            fees = {
+                type: 0,
+                gasPrice: maxBigInt(addPercent(BigInt(previous.gasPrice ?? 0), bump),
+                    current.type === 2 ? current.maxFeePerGas : current.gasPrice),
+            };
+        }
+
+        let replacement: ManagedTransaction;
+        try {
+            replacement = await this.broadcast(wallet, { ...request, ...withoutFees(), ...fees, nonce: tx.nonce }, tx.hashes);
+        } catch (error) {
+            // A version mined meanwhile makes the node reject the replacement as underpriced or its nonce as too low
+            if (await this.isMined(tx)) return tx;
+            throw error;
+        }
+        tx.hash = replacement.hash;
+        tx.hashes = replacement.hashes;
+        tx.request = replacement.request;
+        return tx;
+    }
+
+    // Whether any version of the transaction has a receipt
+    private async isMined(tx: ManagedTransaction): Promise<boolean> {
+        for (const hash of tx.hashes) {
+            const receipt = await withEvmRpcErrors('eth_getTransactionReceipt', () =>
+                this.provider.getTransactionReceipt(hash)
+            );
+            if (receipt) return true;
+        }
+        return false;
+    }
+
+    // Signs and sends a fully specified request, resending the same signed transaction on retryable failures
+    private async broadcast(wallet: Wallet, request: TransactionRequest, previousHashes: string[]): Promise<ManagedTransaction> {
+        const populated = await withEvmRpcErrors('populateTransaction', () => wallet.populateTransaction(request));
+        let signedTx: string;
+        try {
+            signedTx = await wallet.signTransaction(populated);
+        } catch (error) {
+            throw new SigningError(`Failed to sign transaction: ${error instanceof Error ? error.message : error}`, {
+                cause: error
+            });
+        }
+        const hash = Transaction.from(signedTx).hash!;
+
+        for (let attempt = 1; ; attempt++) {
+            try {
+                await withEvmRpcErrors('eth_sendRawTransaction', () => this.provider.broadcastTransaction(signedTx));
+                break;
+            } catch (error) {
+                // An earlier attempt may have reached the node even though its response was lost
+                if (await this.provider.getTransaction(hash).catch(() => null)) break;
+                if (attempt >= MAX_BROADCAST_ATTEMPTS || !isRetryable(error)) throw error;
+                await new Promise(resolve => setTimeout(resolve, BROADCAST_RETRY_DELAY * attempt));
+            }
+        }
+
+        return {
+            from: wallet.address,
+            nonce: populated.nonce!,
+            hash,
+            hashes: [...previousHashes, hash],
+            request: populated,
+        };
+    }
+
+    private async reserveNonce(address: string): Promise<number> {
+        const key = normalizeAddress(address);
+        return this.withNonceLock(key, async () => {
+            const pending = await withEvmRpcErrors('eth_getTransactionCount', () =>
+                this.provider.getTransactionCount(address, 'pending')
+            );
+            // Released nonces below the node's count were since used by transactions sent elsewhere
+            const released = (this.releasedNonces.get(key) ?? []).filter(nonce => nonce >= pending).sort((a, b) => a - b);
+            const next = Math.max(pending, this.nextNonces.get(key) ?? 0);
+            const nonce = released.shift() ?? next;
+            this.releasedNonces.set(key, released);
+            this.nextNonces.set(key, Math.max(next, nonce + 1));
+            return nonce;
+        });
+    }
+
+    private releaseNonce(address: string, nonce: number): void {
+        const key = normalizeAddress(address);
+        this.releasedNonces.set(key, [...(this.releasedNonces.get(key) ?? []), nonce]);
+    }
+
+    private withNonceLock<T>(key: string, operation: () => Promise<T>): Promise<T> {
+        const result = (this.nonceLocks.get(key) ?? Promise.resolve()).then(operation);
+        this.nonceLocks.set(key, result.catch(() => undefined));
+        return result;
+    }
+}
+
+// Clears fee fields, so a request's own pricing does not mix with the estimate
+function withoutFees(): TransactionRequest {
+    return { gasPrice: undefined, maxFeePerGas: undefined, maxPriorityFeePerGas: undefined };
+}
+
+function addPercent(value: bigint, percent: number): bigint {
+    return (value * BigInt(Math.round(100 + percent)) + 99n) / 100n;
+}
+
+function maxBigInt(...values: bigint[]): bigint {
+    return values.reduce((max, value) => value > max ? value : max);
+}
+
+function compareBigInt(a: bigint, b: bigint): number {
+    return a < b ? -1 : a > b ? 1 : 0;
+}
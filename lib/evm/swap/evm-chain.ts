@@ -1,21 +1,15 @@
-import { getHeaders } from '../../shared';
+import { OkxDexClient } from '../../client';
+import { CHAINS } from '../../chains';
+import { CHAIN_OUTPUT, printOutput } from '../../output';
 
 async function main() {
     try {
-        const chainId = '1'; // Ethereum Chain ID
-        const timestamp = new Date().toISOString();
-        const requestPath = "/api/v5/dex/aggregator/supported/chain";
-        const queryString = chainId ? `?chainId=${chainId}` : '';
-        const headers = getHeaders(timestamp, "GET", requestPath, queryString);
+        const client = new OkxDexClient();
+        const chainId = CHAINS.ETHEREUM.chainId;
 
-        console.log('Getting supported chain info for Ethereum...');
-        const response = await fetch(`https://www.okx.com${requestPath}${queryString}`, {
-            method: "GET",
-            headers
-        });
-
-        const data = await response.json();
-        console.log('Supported chains response:', JSON.stringify(data, null, 2));
+        console.error('Getting supported chain info for Ethereum...');
+        const data = await client.getSupportedChain({ chainId });
+        printOutput(data, CHAIN_OUTPUT);
     } catch (error) {
         console.error('Script failed:', error);
         process.exit(1);
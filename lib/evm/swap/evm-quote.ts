@@ -1,30 +1,23 @@
 
 // scripts/evm-quote.ts
-import { getHeaders } from '../../shared';
+import { OkxDexClient } from '../../client';
+import { CHAINS } from '../../chains';
+import { QUOTE_OUTPUT, printOutput } from '../../output';
 
 async function main() {
     try {
+        const client = new OkxDexClient();
         const params = {
-            chainId: '1', // Ethereum mainnet
+            chainId: CHAINS.ETHEREUM.chainId,
             amount: '10000000000000000000', // 10 ETH
-            fromTokenAddress: '0xEeeeeEeeeEeEeeEeEeEeeEEEeeeeEeeeeeeeEEeE', // Native ETH
+            fromTokenAddress: CHAINS.ETHEREUM.nativeTokenAddress,
             toTokenAddress: '0xdAC17F958D2ee523a2206206994597C13D831ec7', // USDT
             slippage: '0.1',
         };
 
-        const timestamp = new Date().toISOString();
-        const requestPath = "/api/v5/dex/aggregator/quote";
-        const queryString = "?" + new URLSearchParams(params).toString();
-        const headers = getHeaders(timestamp, "GET", requestPath, queryString);
-
-        console.log('Getting EVM quote...');
-        const response = await fetch(`https://www.okx.com${requestPath}${queryString}`, {
-            method: "GET",
-            headers
-        });
-
-        const data = await response.json();
-        console.log('Quote response:', JSON.stringify(data, null, 2));
+        console.error('Getting EVM quote...');
+        const data = await client.getQuote(params);
+        printOutput(data, QUOTE_OUTPUT);
     } catch (error) {
         console.error('Script failed:', error);
         process.exit(1);
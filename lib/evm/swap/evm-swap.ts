@@ -1,36 +1,342 @@
-// scripts/evm-swap.ts
-import { getHeaders } from '../../shared';
+// evm-swap.ts
+import { JsonRpcProvider, TransactionReceipt, TransactionRequest, Wallet } from 'ethers';
+import dotenv from 'dotenv';
+import { OkxDexClient, SwapParams } from '../../client';
+import { CHAINS, ChainInfo, explorerTxUrl, findChain, normalizeAddress } from '../../chains';
+import { DEFAULT_SLIPPAGE, loadProfile, rpcEnvVar, rpcUrlFor, simulationRpcUrlFor, walletFor } from '../../config';
+import { TokenRegistry } from '../../token-registry';
+import { QuoteToken, SwapData, SwapTransaction } from '../../models';
+import { ConfirmationTimeoutError, InvalidParamError, RpcError, SigningError, TradeAbortedError } from '../../errors';
+import { parseUnits } from '../../amount';
+import { confirmTrade, formatTradeReview, reviewSwap } from '../../trade-review';
+import { SimulationReport, formatSimulationReport } from '../../simulation';
+import { ApprovalOptions, ApprovalResult, ensureAllowance } from '../evm-approval';
+import { evmWallet } from '../evm-keys';
+import { SwapToken, simulateEvmTransaction } from '../evm-simulation';
+import { EvmTransactionManager } from '../evm-transactions';
+
+dotenv.config();
+
+// Environment variables, else the .okxdexrc profile
+const profile = loadProfile();
+
+// Constants
+const SLIPPAGE = profile.slippage ?? DEFAULT_SLIPPAGE;
+const SPEED_UP_AFTER = 60000; // 1 minute
+const MAX_SPEED_UPS = 2;
+const CONFIRMATION_TIMEOUT = 180000; // 3 minutes
+
+const client = new OkxDexClient();
+const tokens = new TokenRegistry(client);
+const managers = new Map<string, EvmTransactionManager>();
+const simulationProviders = new Map<string, JsonRpcProvider>();
+
+interface EvmSwapResult {
+    txId: string;
+    receipt: TransactionReceipt;
+}
+
+// One transaction manager per chain, so nonces are tracked across swaps; the node is EVM_RPC_URL or the profile's rpc entry for the chain
+function managerFor(chain: ChainInfo): EvmTransactionManager {
+    if (chain.family !== 'evm') {
+        throw new InvalidParamError(`${chain.name} is not an EVM chain`);
+    }
+
+    let manager = managers.get(chain.chainId);
+    if (!manager) {
+        const rpcUrl = rpcUrlFor(profile, chain);
+        if (!rpcUrl) {
+            throw new InvalidParamError(
+                `No RPC URL for ${chain.name}; set ${rpcEnvVar(chain)} or rpc.${chain.chainId} in the .okxdexrc profile`
+            );
+        }
+        // The chain is known, so ethers need not ask the node for it
+        const provider = new JsonRpcProvider(rpcUrl, Number(chain.chainId), { staticNetwork: true });
+        manager = new EvmTransactionManager(provider);
+        managers.set(chain.chainId, manager);
+    }
+    return manager;
+}
+
+/**
+ * Node swaps are simulated on: EVM_SIMULATION_RPC_URL or the profile's
+ * simulationRpc entry, e.g. a local fork, else the chain's own node
+ */
+function simulationProviderFor(chain: ChainInfo): JsonRpcProvider {
+    const { provider } = managerFor(chain);
+    let simulationProvider = simulationProviders.get(chain.chainId);
+    if (!simulationProvider) {
+        const rpcUrl = simulationRpcUrlFor(profile, chain);
+        simulationProvider = !rpcUrl || rpcUrl === rpcUrlFor(profile, chain)
+            ? provider
+            : new JsonRpcProvider(rpcUrl, Number(chain.chainId), { staticNetwork: true });
+        simulationProviders.set(chain.chainId, simulationProvider);
+    }
+    return simulationProvider;
+}
+
+function convertAmount(amount: string, decimals: number): string {
+    const value = parseUnits(amount, decimals);
+    if (value <= 0n) {
+        throw new InvalidParamError("Amount must be greater than 0");
+    }
+    return value.toString();
+}
+
+/**
+ * Transaction request from the tx of the swap endpoint. Its gas price fields
+ * are left out: the transaction manager prices the transaction when it is
+ * sent, and pads the gas limit.
+ */
+function buildTransaction(chain: ChainInfo, tx: SwapTransaction): TransactionRequest {
+    if (!tx.to) {
+        throw new InvalidParamError("Swap transaction has no recipient (tx.to)");
+    }
+
+    return {
+        chainId: BigInt(chain.chainId),
+        to: tx.to,
+        data: tx.data,
+        value: BigInt(tx.value ?? "0"),
+        gasLimit: tx.gas ? BigInt(tx.gas) : undefined
+    };
+}
+
+function connectWallet(chain: ChainInfo, privateKey: string): Wallet {
+    const { provider } = managerFor(chain);
+    try {
+        return evmWallet(privateKey).connect(provider);
+    } catch (error) {
+        throw new SigningError(`Invalid private key: ${error instanceof Error ? error.message : error}`, {
+            cause: error
+        });
+    }
+}
+
+/**
+ * Approves the OKX DEX router to spend the swap's input token when the
+ * wallet's allowance falls short, and waits for the approval to confirm.
+ * Returns undefined for native tokens, which need no approval. Pass the
+ * client the swap data came from so the approval uses the same environment.
+ */
+async function approveSwap(
+    chain: ChainInfo,
+    swapData: SwapData,
+    privateKey: string,
+    options: ApprovalOptions = {},
+    apiClient: OkxDexClient = client
+): Promise<ApprovalResult | undefined> {
+    const { fromToken, fromTokenAmount } = swapData.routerResult;
+    return ensureAllowance(
+        apiClient,
+        managerFor(chain),
+        connectWallet(chain, privateKey),
+        chain,
+        fromToken.tokenContractAddress,
+        BigInt(fromTokenAmount),
+        options
+    );
+}
+
+// Wallet of the private key, checked against the address the swap was built for
+function swapWallet(chain: ChainInfo, tx: SwapTransaction, privateKey: string): Wallet {
+    const wallet = connectWallet(chain, privateKey);
+    if (tx.from && normalizeAddress(tx.from) !== normalizeAddress(wallet.address)) {
+        throw new SigningError(`Swap transaction was built for ${tx.from}, but the private key belongs to ${wallet.address}`);
+    }
+    return wallet;
+}
+
+function swapToken({ tokenSymbol, decimal }: QuoteToken): SwapToken {
+    return { symbol: tokenSymbol, decimals: Number(decimal) };
+}
+
+/**
+ * Runs the tx of the swap endpoint with eth_call from the wallet, on the
+ * simulation node, and checks its output against tx.minReceiveAmount. An
+ * ERC-20 sell reverts until the router is approved (see approveSwap).
+ */
+async function simulateSwap(chain: ChainInfo, swapData: SwapData, privateKey: string): Promise<SimulationReport> {
+    const { tx, routerResult } = swapData;
+    const wallet = swapWallet(chain, tx, privateKey);
+    return simulateEvmTransaction(
+        simulationProviderFor(chain),
+        { ...buildTransaction(chain, tx), from: wallet.address },
+        {
+            fromToken: swapToken(routerResult.fromToken),
+            toToken: swapToken(routerResult.toToken),
+            fromAmount: BigInt(routerResult.fromTokenAmount),
+            minReceiveAmount: tx.minReceiveAmount ? BigInt(tx.minReceiveAmount) : undefined
+        }
+    );
+}
+
+/**
+ * Simulates the tx of the swap endpoint, then sends it through the chain's
+ * transaction manager, which prices it from fee history and assigns its
+ * nonce, and waits for the receipt. Nothing is signed when the simulation
+ * reverts or returns less than tx.minReceiveAmount. A swap not mined within
+ * SPEED_UP_AFTER is sped up, at most MAX_SPEED_UPS times; a revert raises a
+ * non-retryable RpcError.
+ */
+async function executeSwap(chain: ChainInfo, swapData: SwapData, privateKey: string): Promise<EvmSwapResult> {
+    const wallet = swapWallet(chain, swapData.tx, privateKey);
+
+    const report = await simulateSwap(chain, swapData, privateKey);
+    if (!report.success) {
+        throw new TradeAbortedError([`simulation failed: ${report.error ?? 'unknown error'}`]);
+    }
+
+    const manager = managerFor(chain);
+    const sent = await manager.send(wallet, buildTransaction(chain, swapData.tx));
+    console.log("Transaction sent:", sent.hash);
+
+    console.log("Waiting for confirmation...");
+    for (let speedUps = 0; ; speedUps++) {
+        try {
+            const receipt = await manager.wait(sent, speedUps < MAX_SPEED_UPS ? SPEED_UP_AFTER : CONFIRMATION_TIMEOUT);
+            return { txId: receipt.hash, receipt };
+        } catch (error) {
+            if (!(error instanceof ConfirmationTimeoutError) || speedUps === MAX_SPEED_UPS) {
+                throw error;
+            }
+            const previousHash = sent.hash;
+            try {
+                await manager.speedUp(wallet, sent);
+            } catch (speedUpError) {
+                // The pending version may still be mined, e.g. when the node rejects the replacement as underpriced
+                if (!(speedUpError instanceof RpcError)) throw speedUpError;
+                console.log(`Speed-up rejected (${speedUpError.message}), still waiting for:`, sent.hash);
+                continue;
+            }
+            console.log(sent.hash === previousHash
+                ? "Mined while speeding up, not replaced"
+                : `Not mined after ${SPEED_UP_AFTER / 1000}s, sped up as: ${sent.hash}`);
+        }
+    }
+}
+
+/**
+ * Replaces a pending transaction of the wallet, e.g. a stuck swap from an
+ * earlier run, with higher fees: "speed-up" resends it, "cancel" sends an
+ * empty transfer to the wallet instead. Waits for whichever version is mined.
+ */
+async function replaceTransaction(
+    chain: ChainInfo,
+    hash: string,
+    privateKey: string,
+    mode: 'speed-up' | 'cancel'
+): Promise<EvmSwapResult> {
+    const wallet = connectWallet(chain, privateKey);
+    const manager = managerFor(chain);
+    const pending = await manager.track(hash);
+    await (mode === 'cancel' ? manager.cancel(wallet, pending) : manager.speedUp(wallet, pending));
+    if (pending.hash !== hash) {
+        console.log("Replacement sent:", pending.hash);
+    }
+
+    console.log("Waiting for confirmation...");
+    const receipt = await manager.wait(pending, CONFIRMATION_TIMEOUT);
+    return { txId: receipt.hash, receipt };
+}
 
 async function main() {
     try {
-        const params = {
-            chainId: '1', // Ethereum mainnet
-            amount: '10000000000000000000', // 10 ETH
-            fromTokenAddress: '0xEeeeeEeeeEeEeeEeEeEeeEEEeeeeEeeeeeeeEEeE', // Native ETH
-            toTokenAddress: '0xdAC17F958D2ee523a2206206994597C13D831ec7', // USDT
-            userWalletAddress: "0x9163756d2a83a334de2cc0c3aa1df9a5fc21369d",
-            slippage: "0.5",
-            autoSlippage: "true",
-            maxAutoSlippageBps: "100"
+        const args = process.argv.slice(2).filter(arg => !arg.startsWith("--"));
+        const yes = process.argv.includes("--yes");
+        const dryRun = process.argv.includes("--dry-run");
+        const unlimitedApproval = process.argv.includes("--unlimited-approval");
+        const chainArg = process.argv.find(arg => arg.startsWith("--chain="));
+        if (args.length < 3) {
+            console.log("Usage: ts-node evm-swap.ts <amount> <fromToken> <toToken> [--chain=<id or name>] [--yes] [--dry-run] [--unlimited-approval]");
+            console.log("Tokens are symbols or addresses, e.g. ts-node evm-swap.ts 0.1 ETH USDT; the chain defaults to Ethereum");
+            process.exit(1);
+        }
+
+        const [amount, fromQuery, toQuery] = args;
+        const chain = chainArg ? findChain(chainArg.slice("--chain=".length)) : CHAINS.ETHEREUM;
+        const { address: userAddress, privateKey: userPrivateKey } = walletFor(profile, chain);
+
+        if (!userPrivateKey || !userAddress) {
+            throw new Error("Private key or user address not found; set WALLET_ADDRESS and PRIVATE_KEY or a wallet in the .okxdexrc profile");
+        }
+
+        // Resolve symbols or addresses; prices come with the swap quote
+        console.log("Getting token information...");
+        const tokenInfo = {
+            fromToken: await tokens.resolve(chain.chainId, fromQuery),
+            toToken: await tokens.resolve(chain.chainId, toQuery)
         };
+        console.log(`From: ${tokenInfo.fromToken.symbol} (${tokenInfo.fromToken.decimals} decimals)`);
+        console.log(`To: ${tokenInfo.toToken.symbol} (${tokenInfo.toToken.decimals} decimals)`);
 
-        const timestamp = new Date().toISOString();
-        const requestPath = "/api/v5/dex/aggregator/swap";
-        const queryString = "?" + new URLSearchParams(params).toString();
-        const headers = getHeaders(timestamp, "GET", requestPath, queryString);
+        // Convert amount using fetched decimals
+        const rawAmount = convertAmount(amount, tokenInfo.fromToken.decimals);
+        console.log(`Amount in ${tokenInfo.fromToken.symbol} base units:`, rawAmount);
 
-        console.log('Getting EVM quote...');
-        const response = await fetch(`https://www.okx.com${requestPath}${queryString}`, {
-            method: "GET",
-            headers
-        });
+        const swapParams: SwapParams = {
+            chainId: chain.chainId,
+            amount: rawAmount,
+            fromTokenAddress: tokenInfo.fromToken.tokenContractAddress,
+            toTokenAddress: tokenInfo.toToken.tokenContractAddress,
+            slippage: SLIPPAGE,
+            userWalletAddress: userAddress,
+            feePercent: profile.fees?.feePercent,
+            referrerAddress: profile.fees?.referrer,
+        };
 
-        const data = await response.json();
-        console.log('Quote response:', JSON.stringify(data, null, 2));
+        console.log("Requesting swap quote...");
+        const [swapData] = await client.getSwap(swapParams);
+        if (!swapData) {
+            throw new Error("No swap data returned");
+        }
+
+        // Show route, minimum output, price impact and fees; --yes skips the prompt
+        console.log();
+        if (dryRun) {
+            // Nothing is sent, so there is nothing to confirm; ERC-20 sells revert without an allowance
+            console.log(formatTradeReview(reviewSwap(swapData)));
+            console.log("\nSimulating swap transaction (dry run, nothing is sent)...");
+            const report = await simulateSwap(chain, swapData, userPrivateKey);
+            console.log(formatSimulationReport(report));
+            process.exit(report.success ? 0 : 1);
+        }
+        await confirmTrade(reviewSwap(swapData), { yes });
+
+        // ERC-20 input tokens need an allowance for the router before the swap can pull them
+        console.log("\nChecking token allowance...");
+        const approval = await approveSwap(chain, swapData, userPrivateKey, { unlimited: unlimitedApproval });
+        for (const txId of approval?.txIds ?? []) {
+            console.log("Approval confirmed:", explorerTxUrl(chain.chainId, txId));
+        }
+
+        console.log("\nExecuting swap transaction...");
+        const { txId, receipt } = await executeSwap(chain, swapData, userPrivateKey);
+
+        console.log("\nSwap completed successfully!");
+        console.log("Transaction ID:", txId);
+        console.log("Block:", receipt.blockNumber);
+        console.log("Gas Used:", receipt.gasUsed.toString());
+        console.log("Explorer URL:", explorerTxUrl(chain.chainId, txId));
+
+        process.exit(0);
     } catch (error) {
-        console.error('Script failed:', error);
+        console.error("Error:", error instanceof Error ? error.message : "Unknown error");
         process.exit(1);
     }
 }
 
-main();
+if (require.main === module) {
+    main();
+}
+
+export {
+    convertAmount,
+    buildTransaction,
+    approveSwap,
+    simulateSwap,
+    executeSwap,
+    replaceTransaction,
+    managerFor,
+    type EvmSwapResult
+};
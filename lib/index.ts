@@ -0,0 +1,22 @@
+// Public entry point for using the OKX DEX API as a library
+export * from './client';
+export * from './environments';
+export { getHeaders, signRequest } from './shared';
+export * from './credentials';
+export * from './key-pool';
+export * from './models';
+export * from './amount';
+export * from './chains';
+export * from './config';
+export * from './token-registry';
+export * from './output';
+export * from './trade-review';
+export * from './simulation';
+export * from './doctor';
+export * from './errors';
+export * from './rate-limiter';
+export * from './clock';
+export * from './logger';
+export * from './cassette';
+export * from './cache';
+export { ResponseValidationError } from './schema';
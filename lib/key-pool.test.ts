@@ -0,0 +1,113 @@
+// Key rotation and benching of the key pool, on a fake clock
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import { OkxCredentials, StaticCredentialProvider } from './credentials';
+import { AuthError, ClockSkewError, RateLimitError, UpstreamHttpError } from './errors';
+import { KeyPool } from './key-pool';
+
+const keys: OkxCredentials[] = ['key-one-0001', 'key-two-0002', 'key-three-03'].map(apiKey => ({
+    apiKey, secretKey: 'secret', passphrase: 'pass', projectId: 'project',
+}));
+
+const settle = () => new Promise(resolve => setImmediate(resolve));
+
+describe('KeyPool', () => {
+    beforeEach(() => mock.timers.enable({ apis: ['setTimeout', 'Date'], now: 0 }));
+    afterEach(() => mock.timers.reset());
+
+    async function nextKeys(pool: KeyPool, count: number): Promise<string[]> {
+        const taken: string[] = [];
+        for (let i = 0; i < count; i++) taken.push((await pool.getCredentials()).apiKey);
+        return taken;
+    }
+
+    it('rotates round-robin over keys and providers', async () => {
+        const pool = new KeyPool([keys[0], new StaticCredentialProvider(keys[1]), keys[2]]);
+        assert.deepEqual(await nextKeys(pool, 4), ['key-one-0001', 'key-two-0002', 'key-three-03', 'key-one-0001']);
+        assert.deepEqual(pool.stats().map(stats => stats.requests), [2, 1, 1]);
+    });
+
+    it('benches a rate limited key with doubling backoff until it succeeds', async () => {
+        const messages: string[] = [];
+        const pool = new KeyPool(keys.slice(0, 2), { rateLimitBenchMs: 1_000, logger: { warn: message => { messages.push(message); } } });
+        await nextKeys(pool, 1);
+
+        assert.equal(pool.reportResult(keys[0], new RateLimitError('Too Many Requests')), true);
+        assert.deepEqual(await nextKeys(pool, 2), ['key-two-0002', 'key-two-0002']);
+        assert.equal(pool.stats()[0].benchedUntil?.getTime(), 1_000);
+        assert.equal(pool.stats()[0].benchReason, 'rate-limit');
+
+        mock.timers.tick(1_000);
+        assert.equal(pool.stats()[0].benchedUntil, undefined);
+        pool.reportResult(keys[0], new RateLimitError('Too Many Requests'));
+        assert.equal(pool.stats()[0].benchedUntil?.getTime(), 3_000);
+
+        mock.timers.tick(2_000);
+        pool.reportResult(keys[0]);
+        pool.reportResult(keys[0], new RateLimitError('Too Many Requests'));
+        assert.equal(pool.stats()[0].benchedUntil?.getTime(), 4_000);
+
+        assert.deepEqual(messages, [
+            'Benching API key key-…0001 for 1000ms after rate-limit error',
+            'Benching API key key-…0001 for 2000ms after rate-limit error',
+            'Benching API key key-…0001 for 1000ms after rate-limit error',
+        ]);
+    });
+
+    it('caps the rate limit bench', async () => {
+        const pool = new KeyPool(keys.slice(0, 1), { rateLimitBenchMs: 1_000, maxRateLimitBenchMs: 3_000 });
+        await nextKeys(pool, 1);
+        for (let i = 0; i < 4; i++) pool.reportResult(keys[0], new RateLimitError('Too Many Requests'));
+        assert.equal(pool.stats()[0].benchedUntil?.getTime(), 3_000);
+    });
+
+    it('waits for the first key back when every key is rate limited', async () => {
+        const pool = new KeyPool(keys.slice(0, 2), { rateLimitBenchMs: 1_000 });
+        await nextKeys(pool, 2);
+        pool.reportResult(keys[0], new RateLimitError('Too Many Requests'));
+        pool.reportResult(keys[0], new RateLimitError('Too Many Requests'));
+        pool.reportResult(keys[1], new RateLimitError('Too Many Requests'));
+
+        let resolved: string | undefined;
+        const next = pool.getCredentials().then(credentials => { resolved = credentials.apiKey; });
+        await settle();
+        mock.timers.tick(999);
+        await settle();
+        assert.equal(resolved, undefined);
+
+        mock.timers.tick(1);
+        await next;
+        assert.equal(resolved, 'key-two-0002');
+    });
+
+    it('benches keys that fail auth, but not for clock skew or other errors', async () => {
+        const pool = new KeyPool(keys.slice(0, 2));
+        await nextKeys(pool, 2);
+
+        assert.equal(pool.reportResult(keys[0], new ClockSkewError('Timestamp request expired')), false);
+        assert.equal(pool.reportResult(keys[0], new UpstreamHttpError('Bad Gateway', { status: 502 })), false);
+        assert.equal(pool.stats()[0].benchedUntil, undefined);
+
+        assert.equal(pool.reportResult(keys[0], new AuthError('Invalid OK-ACCESS-KEY')), true);
+        assert.equal(pool.stats()[0].benchedUntil?.getTime(), 5 * 60_000);
+        assert.equal(pool.stats()[0].benchReason, 'auth');
+        assert.equal(pool.stats()[0].errors, 3);
+        assert.deepEqual(await nextKeys(pool, 1), ['key-two-0002']);
+
+        pool.reportResult(keys[1], new AuthError('Invalid OK-ACCESS-KEY'));
+        await assert.rejects(pool.getCredentials(), { name: 'AuthError', message: /Every key in the pool is benched/ });
+
+        mock.timers.tick(5 * 60_000);
+        assert.deepEqual(await nextKeys(pool, 1), ['key-one-0001']);
+    });
+
+    it('ignores results for keys outside the pool', async () => {
+        const pool = new KeyPool(keys.slice(0, 1));
+        await nextKeys(pool, 1);
+        assert.equal(pool.reportResult(keys[1], new RateLimitError('Too Many Requests')), false);
+    });
+
+    it('requires at least one key', () => {
+        assert.throws(() => new KeyPool([]), /at least one key set/);
+    });
+});
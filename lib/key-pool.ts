@@ -0,0 +1,180 @@
+/**
+ * Rotating pool of OKX API keys
+ *
+ * Spreads requests round-robin across several key sets, tracks per-key error
+ * and rate-limit state, and benches keys that return auth or throttling
+ * errors so the client retries on a healthy key instead.
+ */
+
+import { CredentialProvider, OkxCredentials } from './credentials';
+import { AuthError, ClockSkewError, RateLimitError } from './errors';
+import { Logger, silentLogger } from './logger';
+
+export interface KeyPoolOptions {
+    /** How long a key is benched after an auth failure */
+    authBenchMs?: number;
+    /** Bench after the first rate limit error; doubles with each consecutive one */
+    rateLimitBenchMs?: number;
+    maxRateLimitBenchMs?: number;
+    /** Told when a key is benched; silent by default */
+    logger?: Logger;
+}
+
+export interface KeyStats {
+    apiKey: string;
+    requests: number;
+    errors: number;
+    rateLimits: number;
+    authFailures: number;
+    consecutiveFailures: number;
+    benchedUntil?: Date;
+    benchReason?: 'auth' | 'rate-limit';
+}
+
+interface KeyState {
+    credentials: OkxCredentials;
+    requests: number;
+    errors: number;
+    rateLimits: number;
+    authFailures: number;
+    consecutiveFailures: number;
+    consecutiveRateLimits: number;
+    benchedUntil: number;
+    benchReason?: 'auth' | 'rate-limit';
+}
+
+const DEFAULT_OPTIONS: Required<KeyPoolOptions> = {
+    authBenchMs: 5 * 60_000,
+    rateLimitBenchMs: 1000,
+    maxRateLimitBenchMs: 60_000,
+    logger: silentLogger,
+};
+
+export class KeyPool implements CredentialProvider {
+    private readonly options: Required<KeyPoolOptions>;
+    private states?: KeyState[];
+    private loading?: Promise<KeyState[]>;
+    private next = 0;
+
+    constructor(
+        private readonly sources: Array<OkxCredentials | CredentialProvider>,
+        options: KeyPoolOptions = {}
+    ) {
+        if (sources.length === 0) {
+            throw new Error("KeyPool requires at least one key set");
+        }
+        this.options = { ...DEFAULT_OPTIONS, ...options, logger: options.logger ?? silentLogger };
+    }
+
+    /**
+     * Returns the next key that is not benched. When every key is benched for
+     * rate limiting, waits for the first one to come back; when every key is
+     * benched for auth failures, throws.
+     */
+    async getCredentials(): Promise<OkxCredentials> {
+        const states = await this.load();
+
+        for (;;) {
+            const now = Date.now();
+            for (let i = 0; i < states.length; i++) {
+                const state = states[(this.next + i) % states.length];
+                if (state.benchedUntil <= now) {
+                    this.next = (this.next + i + 1) % states.length;
+                    state.requests++;
+                    return state.credentials;
+                }
+            }
+
+            const waiting = states.filter(state => state.benchReason === 'rate-limit');
+            if (waiting.length === 0) {
+                throw new AuthError("Every key in the pool is benched after auth failures");
+            }
+            const wakeAt = Math.min(...waiting.map(state => state.benchedUntil));
+            await new Promise(resolve => setTimeout(resolve, Math.max(0, wakeAt - now)));
+        }
+    }
+
+    /**
+     * Records the outcome of a request. Returns true when the error benched
+     * the key, meaning the request may be retried on another one.
+     */
+    reportResult(credentials: OkxCredentials, error?: unknown): boolean {
+        const state = this.states?.find(candidate => candidate.credentials.apiKey === credentials.apiKey);
+        if (!state) return false;
+
+        if (!error) {
+            state.consecutiveFailures = 0;
+            state.consecutiveRateLimits = 0;
+            state.benchReason = undefined;
+            return false;
+        }
+
+        state.errors++;
+        state.consecutiveFailures++;
+
+        if (error instanceof RateLimitError) {
+            state.rateLimits++;
+            const bench = Math.min(
+                this.options.rateLimitBenchMs * Math.pow(2, state.consecutiveRateLimits),
+                this.options.maxRateLimitBenchMs
+            );
+            state.consecutiveRateLimits++;
+            this.bench(state, 'rate-limit', bench);
+            return true;
+        }
+
+        // A skewed local clock is not the key's fault
+        if (error instanceof AuthError && !(error instanceof ClockSkewError)) {
+            state.authFailures++;
+            this.bench(state, 'auth', this.options.authBenchMs);
+            return true;
+        }
+
+        return false;
+    }
+
+    stats(): KeyStats[] {
+        const now = Date.now();
+        return (this.states ?? []).map(state => ({
+            apiKey: state.credentials.apiKey,
+            requests: state.requests,
+            errors: state.errors,
+            rateLimits: state.rateLimits,
+            authFailures: state.authFailures,
+            consecutiveFailures: state.consecutiveFailures,
+            benchedUntil: state.benchedUntil > now ? new Date(state.benchedUntil) : undefined,
+            benchReason: state.benchedUntil > now ? state.benchReason : undefined,
+        }));
+    }
+
+    private bench(state: KeyState, reason: 'auth' | 'rate-limit', ms: number): void {
+        state.benchReason = reason;
+        state.benchedUntil = Date.now() + ms;
+        this.options.logger.warn(`Benching API key ${maskKey(state.credentials.apiKey)} for ${ms}ms after ${reason} error`);
+    }
+
+    private load(): Promise<KeyState[]> {
+        if (!this.loading) {
+            this.loading = Promise.all(this.sources.map(source =>
+                'getCredentials' in source ? source.getCredentials() : source
+            )).then(credentials => {
+                this.states = credentials.map(entry => ({
+                    credentials: entry,
+                    requests: 0,
+                    errors: 0,
+                    rateLimits: 0,
+                    authFailures: 0,
+                    consecutiveFailures: 0,
+                    consecutiveRateLimits: 0,
+                    benchedUntil: 0,
+                }));
+                return this.states;
+            });
+        }
+        return this.loading;
+    }
+}
+
+function maskKey(apiKey: string): string {
+    return apiKey.length > 8 ? `${apiKey.slice(0, 4)}…${apiKey.slice(-4)}` : '****';
+}
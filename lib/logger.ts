@@ -0,0 +1,17 @@
+/**
+ * Destination for warnings from the library
+ *
+ * Library modules report rate limit backoffs, benched keys, clock skew and
+ * cache failures through a Logger rather than the console, so applications
+ * decide where they go. Nothing is written unless a logger is passed in;
+ * `console` works as one.
+ */
+
+export interface Logger {
+    warn(message: string): void;
+}
+
+/** Discards every message; the default of every module that takes a logger */
+export const silentLogger: Logger = {
+    warn: () => {},
+};
@@ -0,0 +1,328 @@
+// Scripted scenarios running the Solana swap executors against the mock server and a fake Solana node
+import assert from 'node:assert/strict';
+import crypto from 'node:crypto';
+import fs from 'node:fs';
+import http from 'node:http';
+import { AddressInfo, Socket } from 'node:net';
+import os from 'node:os';
+import path from 'node:path';
+import { after, before, beforeEach, describe, it, mock } from 'node:test';
+import bs58 from 'bs58';
+import { Keypair, MessageV0, SystemProgram, VersionedTransaction } from '@solana/web3.js';
+import { ENDPOINTS } from './endpoints';
+import { OkxCredentials } from './credentials';
+import { MockOkxServer } from './mock-server';
+
+const CREDENTIALS: OkxCredentials = {
+    apiKey: 'test-api-key',
+    secretKey: 'test-secret-key',
+    passphrase: 'test-passphrase',
+    projectId: 'test-project-id',
+};
+
+const SOL = '11111111111111111111111111111111';
+const USDC = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+const LAST_VALID_BLOCK_HEIGHT = 150;
+
+const wallet = Keypair.generate();
+const blockhash = bs58.encode(Buffer.alloc(32, 7));
+
+/**
+ * Solana JSON-RPC and websocket stand-in. Sent transactions are confirmed
+ * over signatureSubscribe with the scripted outcome; `expire` instead lets
+ * the blockhash run out so only a status lookup finds the transaction.
+ */
+class FakeSolanaNode {
+    readonly sent: string[] = [];
+    /** sendTransaction calls to answer with HTTP 503 */
+    unavailable = 0;
+    /** Error the next transactions land with; null for success */
+    landingError: unknown = null;
+    /** Skip the confirmation notification and report the blockhash as expired */
+    expire = false;
+
+    // web3.js connects its websocket to the RPC port + 1, as on solana-test-validator
+    private readonly servers = [0, 1].map(() => http.createServer((req, res) => this.handle(req, res)));
+    private readonly sockets = new Set<Socket>();
+    private readonly websockets = new Set<Socket>();
+    private subscriptions = 0;
+
+    async start(): Promise<string> {
+        let port = 0;
+        for (const server of this.servers) {
+            server.on('connection', socket => this.track(socket));
+            server.on('upgrade', (req, socket: Socket) => this.upgrade(req, socket));
+            await new Promise<void>((resolve, reject) => {
+                server.once('error', reject);
+                server.listen(port && port + 1, '127.0.0.1', resolve);
+            });
+            port ||= (server.address() as AddressInfo).port;
+        }
+        return `http://127.0.0.1:${port}`;
+    }
+
+    async stop(): Promise<void> {
+        // A normal closure (1000) stops web3.js from reconnecting
+        await Promise.all([...this.websockets].map(socket => new Promise<void>(resolve => {
+            socket.end(encodeFrame(0x8, Buffer.from([0x03, 0xe8])), resolve);
+        })));
+        this.sockets.forEach(socket => socket.destroy());
+        await Promise.all(this.servers.map(server => new Promise(resolve => server.close(resolve))));
+    }
+
+    reset(): void {
+        this.sent.length = 0;
+        this.unavailable = 0;
+        this.landingError = null;
+        this.expire = false;
+    }
+
+    private track(socket: Socket): void {
+        this.sockets.add(socket);
+        socket.on('close', () => this.sockets.delete(socket));
+    }
+
+    private handle(req: http.IncomingMessage, res: http.ServerResponse): void {
+        let body = '';
+        req.on('data', chunk => body += chunk);
+        req.on('end', () => {
+            const { id, method, params } = JSON.parse(body);
+            const reply = (result: unknown) => {
+                res.setHeader('content-type', 'application/json');
+                res.end(JSON.stringify({ jsonrpc: '2.0', id, result }));
+            };
+            const context = { slot: 102 };
+
+            switch (method) {
+                case 'getLatestBlockhash':
+                    return reply({ context, value: { blockhash, lastValidBlockHeight: LAST_VALID_BLOCK_HEIGHT } });
+                case 'getBlockHeight':
+                    return reply(this.expire ? LAST_VALID_BLOCK_HEIGHT + 50 : LAST_VALID_BLOCK_HEIGHT - 50);
+                case 'getSlot':
+                    return reply(context.slot);
+                case 'getRecentPrioritizationFees':
+                    return reply([]);
+                case 'sendTransaction': {
+                    if (this.unavailable > 0) {
+                        this.unavailable--;
+                        res.statusCode = 503;
+                        return res.end('Service Unavailable');
+                    }
+                    const tx = VersionedTransaction.deserialize(Buffer.from(params[0], 'base64'));
+                    const signature = bs58.encode(tx.signatures[0]);
+                    this.sent.push(signature);
+                    return reply(signature);
+                }
+                case 'getSignatureStatuses': {
+                    // Only a history lookup finds an expired transaction; confirmation must time out first
+                    const found = !this.expire || params[1]?.searchTransactionHistory;
+                    return reply({
+                        context,
+                        value: params[0].map((signature: string) => found && this.sent.includes(signature)
+                            ? { slot: context.slot, confirmations: null, err: this.landingError, confirmationStatus: 'confirmed' }
+                            : null),
+                    });
+                }
+                default:
+                    res.end(JSON.stringify({ jsonrpc: '2.0', id, error: { code: -32601, message: `Method not found: ${method}` } }));
+            }
+        });
+    }
+
+    private upgrade(req: http.IncomingMessage, socket: Socket): void {
+        this.track(socket);
+        this.websockets.add(socket);
+        socket.on('close', () => this.websockets.delete(socket));
+        const accept = crypto.createHash('sha1')
+            .update(`${req.headers['sec-websocket-key']}258EAFA5-E914-47DA-95CA-C5AB0DC85B11`)
+            .digest('base64');
+        socket.write(`HTTP/1.1 101 Switching Protocols\r\nUpgrade: websocket\r\nConnection: Upgrade\r\nSec-WebSocket-Accept: ${accept}\r\n\r\n`);
+
+        let buffered = Buffer.alloc(0);
+        socket.on('data', chunk => {
+            buffered = Buffer.concat([buffered, chunk]);
+            let frame;
+            while ((frame = readFrame(buffered))) {
+                buffered = buffered.subarray(frame.length);
+                if (frame.opcode === 0x8) {
+                    // Closing with the client's code stops it from reconnecting
+                    socket.end(encodeFrame(0x8, frame.payload.subarray(0, 2)));
+                } else if (frame.opcode === 0x9) {
+                    socket.write(encodeFrame(0xA, frame.payload));
+                } else if (frame.opcode === 0x1) {
+                    this.message(socket, JSON.parse(frame.payload.toString('utf8')));
+                }
+            }
+        });
+    }
+
+    private message(socket: Socket, { id, method }: { id: number; method: string }): void {
+        const send = (message: object) => {
+            socket.write(encodeFrame(0x1, Buffer.from(JSON.stringify({ jsonrpc: '2.0', ...message }))));
+        };
+        if (method !== 'signatureSubscribe') {
+            return send({ id, result: true });
+        }
+
+        const subscription = ++this.subscriptions;
+        send({ id, result: subscription });
+        if (!this.expire) {
+            send({
+                method: 'signatureNotification',
+                params: { subscription, result: { context: { slot: 102 }, value: { err: this.landingError } } },
+            });
+        }
+    }
+}
+
+function readFrame(buffer: Buffer): { opcode: number; payload: Buffer; length: number } | undefined {
+    if (buffer.length < 2) return undefined;
+    let length = buffer[1] & 0x7f;
+    let offset = 2;
+    if (length === 126) {
+        if (buffer.length < 4) return undefined;
+        length = buffer.readUInt16BE(2);
+        offset = 4;
+    } else if (length === 127) {
+        if (buffer.length < 10) return undefined;
+        length = Number(buffer.readBigUInt64BE(2));
+        offset = 10;
+    }
+    // Client frames are always masked
+    const mask = buffer.subarray(offset, offset + 4);
+    offset += 4;
+    if (buffer.length < offset + length) return undefined;
+
+    const payload = Buffer.from(buffer.subarray(offset, offset + length).map((byte, i) => byte ^ mask[i % 4]));
+    return { opcode: buffer[0] & 0x0f, payload, length: offset + length };
+}
+
+function encodeFrame(opcode: number, payload: Buffer): Buffer {
+    const header = payload.length < 126
+        ? Buffer.from([0x80 | opcode, payload.length])
+        : Buffer.from([0x80 | opcode, 126, payload.length >> 8, payload.length & 0xff]);
+    return Buffer.concat([header, payload]);
+}
+
+// Swap data whose transaction moves a different number of lamports each time, so every one has its own signature
+let swaps = 0;
+function swapTransaction(): string {
+    const message = MessageV0.compile({
+        payerKey: wallet.publicKey,
+        recentBlockhash: blockhash,
+        instructions: [SystemProgram.transfer({ fromPubkey: wallet.publicKey, toPubkey: wallet.publicKey, lamports: ++swaps })],
+    });
+    return bs58.encode(new VersionedTransaction(message).serialize());
+}
+
+describe('Solana swaps against the mock server', () => {
+    const okx = new MockOkxServer({ credentials: [CREDENTIALS] });
+    const node = new FakeSolanaNode();
+    let configDir: string;
+    let solanaSwap: typeof import('./solana/swap/solana-swap');
+    let mevSwap: typeof import('./solana/swap/solana-swap-mev');
+    let OkxDexClient: typeof import('./client').OkxDexClient;
+
+    before(async () => {
+        // The swap scripts log every step; keep the test output readable
+        mock.method(console, 'log', () => {});
+        mock.method(console, 'error', () => {});
+
+        configDir = fs.mkdtempSync(path.join(os.tmpdir(), 'okx-dex-test-'));
+        const configFile = path.join(configDir, '.okxdexrc');
+        fs.writeFileSync(configFile, JSON.stringify({
+            profiles: { default: { mev: { twapIntervals: 2, twapDelayMs: 10 } } },
+        }));
+
+        // The swap modules read their settings when first imported
+        Object.assign(process.env, {
+            OKX_DEX_BASE_URL: await okx.start(),
+            SOLANA_RPC_URL: await node.start(),
+            OKX_DEX_CACHE: 'off',
+            OKX_DEX_CONFIG: configFile,
+            OKX_API_KEY: CREDENTIALS.apiKey,
+            OKX_SECRET_KEY: CREDENTIALS.secretKey,
+            OKX_API_PASSPHRASE: CREDENTIALS.passphrase,
+            OKX_PROJECT_ID: CREDENTIALS.projectId,
+            WALLET_ADDRESS: wallet.publicKey.toBase58(),
+            PRIVATE_KEY: bs58.encode(wallet.secretKey),
+        });
+        solanaSwap = await import('./solana/swap/solana-swap');
+        mevSwap = await import('./solana/swap/solana-swap-mev');
+        ({ OkxDexClient } = await import('./client'));
+    });
+
+    after(async () => {
+        await okx.stop();
+        await node.stop();
+        fs.rmSync(configDir, { recursive: true, force: true });
+    });
+
+    beforeEach(() => {
+        okx.reset();
+        node.reset();
+        okx.on(ENDPOINTS.SWAP, ({ query }) => {
+            const token = (address: string, symbol: string) => ({ decimal: '9', tokenContractAddress: address, tokenSymbol: symbol, tokenUnitPrice: '1' });
+            const routerResult = {
+                chainId: query.chainId,
+                fromToken: token(query.fromTokenAddress, 'SOL'),
+                toToken: token(query.toTokenAddress, 'USDC'),
+                fromTokenAmount: query.amount,
+                toTokenAmount: query.amount,
+                estimateGasFee: '5000',
+                priceImpactPercentage: '0',
+                dexRouterList: [],
+            };
+            return { data: [{ routerResult, tx: { data: swapTransaction(), from: query.userWalletAddress } }] };
+        });
+    });
+
+    const swapRequests = () => okx.requests.filter(request => request.path === ENDPOINTS.SWAP);
+
+    it('retries a rate-limited swap request and a failed send', async () => {
+        okx.rateLimit(ENDPOINTS.SWAP, 1);
+        node.unavailable = 1;
+
+        const [swap] = await new OkxDexClient().getSwap({
+            chainId: '501',
+            amount: '1000',
+            fromTokenAddress: SOL,
+            toTokenAddress: USDC,
+            slippage: '0.5',
+            userWalletAddress: wallet.publicKey.toBase58(),
+        });
+        const txId = await solanaSwap.executeSwap(swap.tx.data, bs58.encode(wallet.secretKey));
+
+        assert.equal(swapRequests().length, 2);
+        assert.deepEqual(node.sent, [txId]);
+    });
+
+    it('returns a transaction that landed after its blockhash expired', async () => {
+        node.expire = true;
+
+        const txId = await solanaSwap.executeSwap(swapTransaction(), bs58.encode(wallet.secretKey));
+
+        assert.deepEqual(node.sent, [txId]);
+    });
+
+    it('does not resend a transaction that failed on chain', async () => {
+        node.landingError = { InstructionError: [0, { Custom: 1 }] };
+
+        await assert.rejects(
+            solanaSwap.executeSwap(swapTransaction(), bs58.encode(wallet.secretKey)),
+            (error: any) => error.name === 'RpcError' && error.retryable === false
+        );
+        assert.equal(node.sent.length, 1);
+    });
+
+    it('executes MEV-resistant TWAP chunks through a rate limit', async () => {
+        okx.rateLimit(ENDPOINTS.SWAP, 1);
+
+        // The mock quote has 9 decimals, so 0.000002001 is 2001 base units in two chunks, the last with the remainder
+        const txIds = await mevSwap.executeMEVResistantSwap('0.000002001', SOL, USDC);
+
+        assert.equal(txIds.length, 2);
+        assert.deepEqual(node.sent, txIds);
+        assert.deepEqual(swapRequests().map(request => request.query.amount), ['1000', '1000', '1001']);
+    });
+});
@@ -0,0 +1,253 @@
+/**
+ * Local stand-in for the OKX DEX API
+ *
+ * Serves /api/v5/dex/aggregator/*, /api/v5/dex/cross-chain/* and the other
+ * endpoints used by this library over plain HTTP, checking the OK-ACCESS-*
+ * headers the way the real service does. Responses are scripted per path:
+ * a default for every request plus one-shot responses (errors, rate limits,
+ * slow replies) served in order first, so retry logic can be exercised
+ * deterministically.
+ *
+ * Run `npm run mock-server` to serve on 127.0.0.1:8080 for the `local`
+ * environment profile, signing with the OKX_* environment variables.
+ */
+
+import http from 'http';
+import { AddressInfo } from 'net';
+import { OkxCredentials, readEnvCredentials } from './credentials';
+import { ENDPOINTS } from './endpoints';
+import { signRequest } from './shared';
+
+export interface MockRequest {
+    method: string;
+    path: string;
+    query: Record<string, string>;
+    headers: http.IncomingHttpHeaders;
+    /** Parsed JSON body of POST requests */
+    body?: unknown;
+}
+
+export interface MockResponse {
+    /** HTTP status; defaults to 200 */
+    status?: number;
+    /** OKX response code; defaults to "0" */
+    code?: string;
+    msg?: string;
+    data?: unknown;
+    /** Raw body sent instead of the OKX envelope */
+    rawBody?: string;
+    /** Delay before responding, for timeout scenarios */
+    delayMs?: number;
+}
+
+export type MockHandler = (request: MockRequest) => MockResponse | Promise<MockResponse>;
+
+export interface MockServerOptions {
+    /** Key sets accepted by the server; defaults to the OKX_* environment variables */
+    credentials?: OkxCredentials[];
+    /** Skip signature checks, e.g. for the unsigned beta profile */
+    requireAuth?: boolean;
+    /** Maximum distance between OK-ACCESS-TIMESTAMP and the server clock */
+    timestampToleranceMs?: number;
+}
+
+const SERVED_PREFIXES = ['/api/v5/dex/aggregator/', '/api/v5/dex/cross-chain/', '/api/v5/dex/pre-transaction/'];
+
+// Error responses of the real service for rejected authentication headers
+const AUTH_ERRORS = {
+    missingHeader: (header: string) => ({ status: 401, code: '50103', msg: `Request header ${header} cannot be empty` }),
+    invalidKey: { status: 401, code: '50111', msg: 'Invalid OK-ACCESS-KEY' },
+    invalidPassphrase: { status: 401, code: '50105', msg: 'Request header OK-ACCESS-PASSPHRASE incorrect' },
+    invalidTimestamp: { status: 401, code: '50112', msg: 'Invalid OK-ACCESS-TIMESTAMP' },
+    expiredTimestamp: { status: 401, code: '50102', msg: 'Timestamp request expired' },
+    invalidSign: { status: 401, code: '50113', msg: 'Invalid Sign' },
+};
+
+export const RATE_LIMIT_RESPONSE: MockResponse = { status: 429, code: '50011', msg: 'Too Many Requests' };
+
+export class MockOkxServer {
+    /** Every request received, in order */
+    readonly requests: MockRequest[] = [];
+
+    private readonly server: http.Server;
+    private readonly options: MockServerOptions;
+    private readonly handlers = new Map<string, MockHandler>();
+    private readonly queued = new Map<string, MockResponse[]>();
+    private credentials?: OkxCredentials[];
+
+    constructor(options: MockServerOptions = {}) {
+        this.options = options;
+        this.server = http.createServer((req, res) => {
+            this.handle(req, res).catch(error => {
+                res.writeHead(500, { 'Content-Type': 'text/plain' });
+                res.end(error instanceof Error ? error.message : String(error));
+            });
+        });
+        this.reset();
+    }
+
+    /** Starts listening and resolves with the base URL to pass to OkxDexClient */
+    start(port = 0, host = '127.0.0.1'): Promise<string> {
+        return new Promise((resolve, reject) => {
+            this.server.once('error', reject);
+            this.server.listen(port, host, () => {
+                this.server.off('error', reject);
+                resolve(this.baseUrl);
+            });
+        });
+    }
+
+    stop(): Promise<void> {
+        return new Promise((resolve, reject) => {
+            this.server.close(error => error ? reject(error) : resolve());
+        });
+    }
+
+    get baseUrl(): string {
+        const address = this.server.address() as AddressInfo | null;
+        if (!address) throw new Error('Mock server is not listening');
+        return `http://${address.address}:${address.port}`;
+    }
+
+    /** Sets the response for every request to `path` not served from the queue */
+    on(path: string, response: MockResponse | MockHandler): this {
+        this.handlers.set(path, typeof response === 'function' ? response : () => response);
+        return this;
+    }
+
+    /** Queues one-shot responses for `path`, served in order before its default */
+    enqueue(path: string, ...responses: MockResponse[]): this {
+        this.queued.set(path, [...(this.queued.get(path) ?? []), ...responses]);
+        return this;
+    }
+
+    /** Answers the next `count` requests to `path` with a rate limit error */
+    rateLimit(path: string, count = 1): this {
+        return this.enqueue(path, ...Array(count).fill(RATE_LIMIT_RESPONSE));
+    }
+
+    /** Answers the next request to `path` with an OKX error code */
+    fail(path: string, code: string, msg: string, status = 200): this {
+        return this.enqueue(path, { status, code, msg });
+    }
+
+    /** Clears scripted responses and the request log, restoring the defaults */
+    reset(): this {
+        this.requests.length = 0;
+        this.queued.clear();
+        this.handlers.clear();
+        this.on(ENDPOINTS.SERVER_TIME, () => ({ data: [{ ts: String(Date.now()) }] }));
+        this.on(ENDPOINTS.QUOTE, request => ({ data: [defaultQuote(request.query)] }));
+        this.on(ENDPOINTS.SUPPORTED_CHAIN, () => ({
+            data: [{ chainId: '1', chainName: 'Ethereum' }, { chainId: '501', chainName: 'Solana' }]
+        }));
+        return this;
+    }
+
+    private async handle(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+        const url = new URL(req.url ?? '/', 'http://localhost');
+        const rawBody = await readBody(req);
+        const request: MockRequest = {
+            method: req.method ?? 'GET',
+            path: url.pathname,
+            query: Object.fromEntries(url.searchParams),
+            headers: req.headers,
+            body: rawBody ? JSON.parse(rawBody) : undefined,
+        };
+        this.requests.push(request);
+
+        const served = request.path === ENDPOINTS.SERVER_TIME ||
+            SERVED_PREFIXES.some(prefix => request.path.startsWith(prefix));
+        const handler = this.handlers.get(request.path);
+        const queue = this.queued.get(request.path) ?? [];
+        if (!served || (!handler && queue.length === 0)) {
+            res.writeHead(404, { 'Content-Type': 'text/plain' });
+            res.end('Not Found');
+            return;
+        }
+
+        // The time endpoint is public; everything else is signed
+        const authFailure = request.path === ENDPOINTS.SERVER_TIME
+            ? undefined
+            : this.checkAuth(req, url.pathname + url.search, rawBody);
+        // Rejected requests leave scripted responses in the queue
+        const response = authFailure ?? queue.shift() ?? await handler!(request);
+
+        if (response.delayMs) {
+            await new Promise(resolve => setTimeout(resolve, response.delayMs));
+        }
+        res.writeHead(response.status ?? 200, { 'Content-Type': 'application/json', Date: new Date().toUTCString() });
+        res.end(response.rawBody ?? JSON.stringify({
+            code: response.code ?? '0',
+            msg: response.msg ?? '',
+            data: response.data ?? [],
+        }));
+    }
+
+    private checkAuth(req: http.IncomingMessage, pathAndQuery: string, rawBody: string): MockResponse | undefined {
+        if (this.options.requireAuth === false) return undefined;
+
+        const header = (name: string) => {
+            const value = req.headers[name.toLowerCase()];
+            return Array.isArray(value) ? value[0] : value;
+        };
+        for (const name of ['OK-ACCESS-KEY', 'OK-ACCESS-SIGN', 'OK-ACCESS-TIMESTAMP', 'OK-ACCESS-PASSPHRASE']) {
+            if (!header(name)) return AUTH_ERRORS.missingHeader(name);
+        }
+
+        this.credentials ??= this.options.credentials ?? [readEnvCredentials()];
+        const credentials = this.credentials.find(entry => entry.apiKey === header('OK-ACCESS-KEY'));
+        if (!credentials) return AUTH_ERRORS.invalidKey;
+        if (credentials.passphrase !== header('OK-ACCESS-PASSPHRASE')) return AUTH_ERRORS.invalidPassphrase;
+
+        const timestamp = header('OK-ACCESS-TIMESTAMP')!;
+        const time = Date.parse(timestamp);
+        if (Number.isNaN(time) || !timestamp.endsWith('Z')) return AUTH_ERRORS.invalidTimestamp;
+        if (Math.abs(Date.now() - time) > (this.options.timestampToleranceMs ?? 30_000)) {
+            return AUTH_ERRORS.expiredTimestamp;
+        }
+
+        const expected = signRequest(credentials, timestamp, req.method ?? 'GET', pathAndQuery, rawBody)['OK-ACCESS-SIGN'];
+        if (expected !== header('OK-ACCESS-SIGN')) return AUTH_ERRORS.invalidSign;
+        return undefined;
+    }
+}
+
+function readBody(req: http.IncomingMessage): Promise<string> {
+    return new Promise((resolve, reject) => {
+        const chunks: Buffer[] = [];
+        req.on('data', chunk => chunks.push(chunk));
+        req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+        req.on('error', reject);
+    });
+}
+
+// Quote that returns the input amount one-to-one, enough for scripts to run end to end
+function defaultQuote(query: Record<string, string>) {
+    const token = (address: string) => ({
+        decimal: '9',
+        tokenContractAddress: address ?? '',
+        tokenSymbol: 'MOCK',
+        tokenUnitPrice: '1',
+    });
+    return {
+        chainId: query.chainId ?? '1',
+        fromToken: token(query.fromTokenAddress),
+        toToken: token(query.toTokenAddress),
+        fromTokenAmount: query.amount ?? '0',
+        toTokenAmount: query.amount ?? '0',
+        estimateGasFee: '0',
+        priceImpactPercentage: '0',
+        dexRouterList: [],
+    };
+}
+
+if (require.main === module) {
+    const server = new MockOkxServer();
+    server.start(Number(process.env.MOCK_SERVER_PORT ?? 8080))
+        .then(baseUrl => console.log(`Mock OKX DEX API listening on ${baseUrl}`))
+        .catch(error => {
+            console.error('Failed to start mock server:', error);
+            process.exit(1);
+        });
+}
@@ -0,0 +1,215 @@
+/**
+ * Response models for the OKX DEX API
+ *
+ * Only the fields this library relies on are validated; anything else the
+ * API returns is passed through untouched.
+ */
+
+import {
+    Infer,
+    array,
+    boolean,
+    nullable,
+    numericString,
+    object,
+    optional,
+    string,
+    unknown
+} from './schema';
+
+// =================
+// Aggregator
+// =================
+
+export const quoteTokenSchema = object({
+    decimal: numericString,
+    tokenContractAddress: string,
+    tokenSymbol: string,
+    tokenUnitPrice: optional(nullable(numericString)),
+    isHoneyPot: optional(boolean),
+    taxRate: optional(numericString),
+});
+
+export const dexRouterSchema = object({
+    router: string,
+    routerPercent: numericString,
+    subRouterList: array(object({
+        dexProtocol: array(object({
+            dexName: string,
+            percent: numericString,
+        })),
+        fromToken: optional(object({
+            tokenContractAddress: string,
+            tokenSymbol: string,
+        })),
+        toToken: optional(object({
+            tokenContractAddress: string,
+            tokenSymbol: string,
+        })),
+    })),
+});
+
+export const quoteDataSchema = object({
+    chainId: numericString,
+    fromToken: quoteTokenSchema,
+    toToken: quoteTokenSchema,
+    fromTokenAmount: numericString,
+    toTokenAmount: numericString,
+    dexRouterList: optional(array(dexRouterSchema)),
+    estimateGasFee: optional(numericString),
+    tradeFee: optional(numericString),
+    priceImpactPercentage: optional(nullable(numericString)),
+    quoteCompareList: optional(array(object({
+        dexName: string,
+        amountOut: numericString,
+        tradeFee: optional(numericString),
+    }))),
+});
+
+export const swapTransactionSchema = object({
+    data: string,
+    from: optional(string),
+    to: optional(string),
+    value: optional(numericString),
+    gas: optional(numericString),
+    gasPrice: optional(numericString),
+    maxPriorityFeePerGas: optional(numericString),
+    minReceiveAmount: optional(numericString),
+    slippage: optional(numericString),
+    signatureData: optional(array(string)),
+});
+
+export const swapDataSchema = object({
+    routerResult: quoteDataSchema,
+    tx: swapTransactionSchema,
+});
+
+export const swapInstructionSchema = object({
+    programId: string,
+    data: string,
+    accounts: array(object({
+        pubkey: string,
+        isSigner: boolean,
+        isWritable: boolean,
+    })),
+});
+
+export const swapInstructionDataSchema = object({
+    instructionLists: array(swapInstructionSchema),
+    addressLookupTableAccount: optional(array(string)),
+    addressLookupTableAddresses: optional(array(string)),
+    routerResult: optional(quoteDataSchema),
+    tx: optional(unknown),
+});
+
+export const approveTransactionSchema = object({
+    /** Calldata of approve(dexContractAddress, approveAmount), sent to the token contract */
+    data: string,
+    /** Spender to approve: the OKX DEX token approval contract */
+    dexContractAddress: string,
+    gasLimit: optional(numericString),
+    gasPrice: optional(numericString),
+});
+
+export const tokenListEntrySchema = object({
+    decimals: numericString,
+    tokenContractAddress: string,
+    tokenSymbol: string,
+    tokenName: optional(string),
+    tokenLogoUrl: optional(string),
+});
+
+export const liquiditySourceSchema = object({
+    id: numericString,
+    name: string,
+    logo: optional(string),
+});
+
+export const supportedChainSchema = object({
+    chainId: numericString,
+    chainName: string,
+    dexTokenApproveAddress: optional(nullable(string)),
+});
+
+// =================
+// Cross-Chain
+// =================
+
+export const bridgeTokenSchema = object({
+    chainId: optional(numericString),
+    decimals: numericString,
+    tokenContractAddress: string,
+    tokenSymbol: string,
+    tokenName: optional(string),
+    tokenLogoUrl: optional(string),
+});
+
+export const crossChainRouteSchema = object({
+    toTokenAmount: numericString,
+    minimumReceived: optional(numericString),
+    estimateTime: optional(numericString),
+    estimateGasFee: optional(numericString),
+    needApprove: optional(numericString),
+    router: object({
+        bridgeId: numericString,
+        bridgeName: string,
+        crossChainFee: optional(numericString),
+        otherNativeFee: optional(numericString),
+        crossChainFeeTokenAddress: optional(string),
+    }),
+    fromDexRouterList: optional(array(unknown)),
+    toDexRouterList: optional(array(unknown)),
+});
+
+export const crossChainQuoteSchema = object({
+    fromChainId: numericString,
+    toChainId: numericString,
+    fromTokenAmount: numericString,
+    fromToken: bridgeTokenSchema,
+    toToken: bridgeTokenSchema,
+    routerList: array(crossChainRouteSchema),
+});
+
+export const bridgeSchema = object({
+    bridgeId: numericString,
+    bridgeName: string,
+    logoUrl: optional(string),
+    requiredOtherNativeFee: optional(boolean),
+    supportedChains: optional(array(numericString)),
+});
+
+export const bridgeTokenPairSchema = object({
+    fromChainId: numericString,
+    toChainId: numericString,
+    fromTokenAddress: string,
+    toTokenAddress: string,
+    fromTokenSymbol: string,
+    toTokenSymbol: string,
+});
+
+export const broadcastResultSchema = object({
+    orderId: string,
+    txHash: optional(string),
+});
+
+// =================
+// Types
+// =================
+
+export type QuoteToken = Infer<typeof quoteTokenSchema>;
+export type DexRouter = Infer<typeof dexRouterSchema>;
+export type QuoteData = Infer<typeof quoteDataSchema>;
+export type SwapTransaction = Infer<typeof swapTransactionSchema>;
+export type SwapData = Infer<typeof swapDataSchema>;
+export type SwapInstruction = Infer<typeof swapInstructionSchema>;
+export type SwapInstructionData = Infer<typeof swapInstructionDataSchema>;
+export type ApproveTransaction = Infer<typeof approveTransactionSchema>;
+export type TokenListEntry = Infer<typeof tokenListEntrySchema>;
+export type LiquiditySource = Infer<typeof liquiditySourceSchema>;
+export type SupportedChain = Infer<typeof supportedChainSchema>;
+export type BridgeToken = Infer<typeof bridgeTokenSchema>;
+export type CrossChainRoute = Infer<typeof crossChainRouteSchema>;
+export type CrossChainQuote = Infer<typeof crossChainQuoteSchema>;
+export type Bridge = Infer<typeof bridgeSchema>;
+export type BridgeTokenPair = Infer<typeof bridgeTokenPairSchema>;
+export type BroadcastResult = Infer<typeof broadcastResultSchema>;
@@ -0,0 +1,205 @@
+/**
+ * Output formats for API results
+ *
+ * `table` aligns selected columns for reading in a terminal; `json`, `ndjson`
+ * (one result per line) and `csv` are for piping into other tools. JSON and
+ * NDJSON keep the API response as returned, while tables and CSV show the
+ * columns defined per result type below, with amounts in token units.
+ *
+ * OKX_DEX_OUTPUT sets the default format; otherwise results are a table on a
+ * terminal and JSON when piped.
+ */
+
+import chalk from 'chalk';
+import { formatUnits } from './amount';
+import { InvalidParamError } from './errors';
+import {
+    Bridge,
+    BridgeToken,
+    BridgeTokenPair,
+    CrossChainQuote,
+    CrossChainRoute,
+    LiquiditySource,
+    QuoteData,
+    SupportedChain,
+    SwapData,
+    TokenListEntry
+} from './models';
+
+export type OutputFormat = 'table' | 'json' | 'ndjson' | 'csv';
+
+export const OUTPUT_FORMATS: readonly OutputFormat[] = ['table', 'json', 'ndjson', 'csv'];
+
+export interface Column<R> {
+    header: string;
+    value: (row: R) => string | number | boolean | null | undefined;
+}
+
+/** How results of type T are shown as rows of type R in tables and CSV */
+export interface OutputSpec<T, R = T> {
+    columns: Column<R>[];
+    /** Turns results into rows, e.g. one row per route of a quote; defaults to one row per result */
+    rows?: (data: T[]) => R[];
+}
+
+// =================
+// Result Types
+// =================
+
+export const CHAIN_OUTPUT: OutputSpec<SupportedChain> = {
+    columns: [
+        { header: 'Chain ID', value: chain => chain.chainId },
+        { header: 'Name', value: chain => chain.chainName },
+        { header: 'Approve Address', value: chain => chain.dexTokenApproveAddress },
+    ],
+};
+
+export const TOKEN_OUTPUT: OutputSpec<TokenListEntry> = {
+    columns: [
+        { header: 'Symbol', value: token => token.tokenSymbol },
+        { header: 'Name', value: token => token.tokenName },
+        { header: 'Decimals', value: token => token.decimals },
+        { header: 'Address', value: token => token.tokenContractAddress },
+    ],
+};
+
+export const LIQUIDITY_OUTPUT: OutputSpec<LiquiditySource> = {
+    columns: [
+        { header: 'ID', value: source => source.id },
+        { header: 'Name', value: source => source.name },
+    ],
+};
+
+export const QUOTE_OUTPUT: OutputSpec<QuoteData> = {
+    columns: [
+        { header: 'From', value: quote => tokenAmount(quote.fromTokenAmount, quote.fromToken) },
+        { header: 'To', value: quote => tokenAmount(quote.toTokenAmount, quote.toToken) },
+        { header: 'Price Impact %', value: quote => quote.priceImpactPercentage },
+        { header: 'Gas Fee', value: quote => quote.estimateGasFee },
+        { header: 'Route', value: quote => describeRoute(quote) },
+    ],
+};
+
+export const SWAP_OUTPUT: OutputSpec<SwapData, QuoteData> = {
+    columns: QUOTE_OUTPUT.columns,
+    rows: swaps => swaps.map(swap => swap.routerResult),
+};
+
+export const BRIDGE_OUTPUT: OutputSpec<Bridge> = {
+    columns: [
+        { header: 'ID', value: bridge => bridge.bridgeId },
+        { header: 'Name', value: bridge => bridge.bridgeName },
+        { header: 'Chains', value: bridge => bridge.supportedChains?.join(' ') },
+        { header: 'Other Native Fee', value: bridge => bridge.requiredOtherNativeFee },
+    ],
+};
+
+export const BRIDGE_TOKEN_OUTPUT: OutputSpec<BridgeToken> = {
+    columns: [
+        { header: 'Chain ID', value: token => token.chainId },
+        { header: 'Symbol', value: token => token.tokenSymbol },
+        { header: 'Name', value: token => token.tokenName },
+        { header: 'Decimals', value: token => token.decimals },
+        { header: 'Address', value: token => token.tokenContractAddress },
+    ],
+};
+
+export const TOKEN_PAIR_OUTPUT: OutputSpec<BridgeTokenPair> = {
+    columns: [
+        { header: 'From Chain', value: pair => pair.fromChainId },
+        { header: 'From', value: pair => pair.fromTokenSymbol },
+        { header: 'To Chain', value: pair => pair.toChainId },
+        { header: 'To', value: pair => pair.toTokenSymbol },
+        { header: 'From Address', value: pair => pair.fromTokenAddress },
+        { header: 'To Address', value: pair => pair.toTokenAddress },
+    ],
+};
+
+interface CrossChainRouteRow {
+    quote: CrossChainQuote;
+    route: CrossChainRoute;
+}
+
+export const CROSS_CHAIN_QUOTE_OUTPUT: OutputSpec<CrossChainQuote, CrossChainRouteRow> = {
+    columns: [
+        { header: 'Bridge', value: ({ route }) => route.router.bridgeName },
+        { header: 'From Chain', value: ({ quote }) => quote.fromChainId },
+        { header: 'From', value: ({ quote }) => tokenAmount(quote.fromTokenAmount, quote.fromToken) },
+        { header: 'To Chain', value: ({ quote }) => quote.toChainId },
+        { header: 'To', value: ({ route, quote }) => tokenAmount(route.toTokenAmount, quote.toToken) },
+        { header: 'Min Received', value: ({ quote, route }) => route.minimumReceived && tokenAmount(route.minimumReceived, quote.toToken) },
+        { header: 'Time (s)', value: ({ route }) => route.estimateTime },
+        { header: 'Bridge Fee', value: ({ route }) => route.router.crossChainFee },
+        { header: 'Gas Fee', value: ({ route }) => route.estimateGasFee },
+    ],
+    rows: quotes => quotes.flatMap(quote => quote.routerList.map(route => ({ quote, route }))),
+};
+
+// =================
+// Formatting
+// =================
+
+/** Format from an explicit choice, OKX_DEX_OUTPUT, or whether stdout is a terminal */
+export function resolveOutputFormat(format?: string, env: NodeJS.ProcessEnv = process.env): OutputFormat {
+    const value = format ?? env.OKX_DEX_OUTPUT ?? (process.stdout.isTTY ? 'table' : 'json');
+    if (!OUTPUT_FORMATS.includes(value as OutputFormat)) {
+        throw new InvalidParamError(`Unknown output format "${value}" (expected ${OUTPUT_FORMATS.join(', ')})`);
+    }
+    return value as OutputFormat;
+}
+
+export function formatOutput<T, R>(data: T[], format: OutputFormat, spec: OutputSpec<T, R>): string {
+    switch (format) {
+        case 'json':
+            return JSON.stringify(data, null, 2);
+        case 'ndjson':
+            return data.map(item => JSON.stringify(item)).join('\n');
+        case 'csv':
+        case 'table': {
+            const rows = spec.rows ? spec.rows(data) : data as unknown as R[];
+            const cells = rows.map(row => spec.columns.map(column => cellText(column.value(row))));
+            const headers = spec.columns.map(column => column.header);
+            return format === 'csv' ? renderCsv(headers, cells) : renderTable(headers, cells);
+        }
+    }
+}
+
+/** Prints results in the given format, or the default one (see resolveOutputFormat) */
+export function printOutput<T, R>(data: T[], spec: OutputSpec<T, R>, format: OutputFormat = resolveOutputFormat()): void {
+    const output = formatOutput(data, format, spec);
+    if (output) console.log(output);
+}
+
+/** DEX names along a quote's route, e.g. "Raydium > Orca" */
+export function describeRoute(quote: QuoteData): string {
+    const names = (quote.dexRouterList ?? []).flatMap(router =>
+        router.subRouterList.flatMap(subRouter => subRouter.dexProtocol.map(protocol => protocol.dexName))
+    );
+    return [...new Set(names)].join(' > ');
+}
+
+function tokenAmount(amount: string, token: { tokenSymbol: string; decimal?: string; decimals?: string }): string {
+    return `${formatUnits(amount, Number(token.decimal ?? token.decimals))} ${token.tokenSymbol}`;
+}
+
+function cellText(value: string | number | boolean | null | undefined): string {
+    return value === undefined || value === null ? '' : String(value);
+}
+
+function renderTable(headers: string[], rows: string[][]): string {
+    if (rows.length === 0) return chalk.dim('No results');
+    const widths = headers.map((header, index) =>
+        Math.max(header.length, ...rows.map(row => row[index].length))
+    );
+    const line = (cells: string[]) => cells.map((cell, index) => cell.padEnd(widths[index])).join('  ').trimEnd();
+    return [
+        chalk.bold(line(headers)),
+        chalk.dim(widths.map(width => '─'.repeat(width)).join('  ')),
+        ...rows.map(line),
+    ].join('\n');
+}
+
+function renderCsv(headers: string[], rows: string[][]): string {
+    const escape = (cell: string) => /[",\r\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell;
+    return [headers, ...rows].map(cells => cells.map(escape).join(',')).join('\n');
+}
@@ -0,0 +1,115 @@
+// Token bucket refill and scheduler backoff, on a fake clock
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import { RateLimitError } from './errors';
+import { RequestScheduler, TokenBucket } from './rate-limiter';
+
+/** Lets released requests run before the clock moves on */
+const settle = () => new Promise(resolve => setImmediate(resolve));
+
+function recordingLogger() {
+    const messages: string[] = [];
+    return { messages, warn: (message: string) => { messages.push(message); } };
+}
+
+describe('TokenBucket', () => {
+    beforeEach(() => mock.timers.enable({ apis: ['Date'], now: 0 }));
+    afterEach(() => mock.timers.reset());
+
+    it('starts full and refills at its rate up to capacity', () => {
+        const bucket = new TokenBucket({ capacity: 2, refillPerSecond: 4 });
+        bucket.take(0);
+        bucket.take(0);
+        assert.equal(bucket.waitTime(0), 250);
+        assert.equal(bucket.waitTime(100), 150);
+        assert.equal(bucket.waitTime(250), 0);
+
+        // A long idle period refills no more than the capacity
+        bucket.take(10_000);
+        bucket.take(10_000);
+        assert.equal(bucket.waitTime(10_000), 250);
+    });
+
+    it('empties and blocks while paused', () => {
+        const bucket = new TokenBucket({ capacity: 5, refillPerSecond: 5 });
+        bucket.pause(1_000, 0);
+        assert.equal(bucket.waitTime(0), 1_000);
+        assert.equal(bucket.waitTime(600), 400);
+        assert.equal(bucket.waitTime(1_000), 0);
+    });
+});
+
+describe('RequestScheduler', () => {
+    beforeEach(() => mock.timers.enable({ apis: ['setTimeout', 'Date'], now: 0 }));
+    afterEach(() => mock.timers.reset());
+
+    it('holds requests until their key has a token, swaps first', async () => {
+        const scheduler = new RequestScheduler({ perKey: { capacity: 1, refillPerSecond: 1 } });
+        const order: string[] = [];
+        const run = (group: 'swap' | 'quote' | 'metadata', key = 'a') =>
+            scheduler.schedule({ group, key }, async () => { order.push(`${group}:${key}`); });
+
+        const done = Promise.all([run('metadata'), run('quote'), run('swap'), run('quote', 'b')]);
+        await settle();
+        assert.deepEqual(order, ['metadata:a', 'quote:b']);
+        assert.equal(scheduler.pending, 2);
+
+        mock.timers.tick(999);
+        await settle();
+        assert.equal(order.length, 2);
+
+        mock.timers.tick(1);
+        await settle();
+        assert.deepEqual(order.slice(2), ['swap:a']);
+
+        mock.timers.tick(1_000);
+        await done;
+        assert.deepEqual(order.slice(3), ['quote:a']);
+    });
+
+    it('backs off and retries on a rate limit error, telling the logger', async () => {
+        const logger = recordingLogger();
+        const scheduler = new RequestScheduler({ initialBackoffMs: 100, maxBackoffMs: 1_000, logger });
+        let calls = 0;
+        const result = scheduler.schedule({ group: 'quote', key: 'a' }, async () => {
+            if (++calls < 3) throw new RateLimitError('Too Many Requests', { path: '/quote' });
+            return 'ok';
+        });
+
+        await settle();
+        assert.equal(calls, 1);
+        // The first backoff is 100ms plus up to 100ms jitter, after which the
+        // emptied key bucket needs another 200ms to refill a token
+        mock.timers.tick(400);
+        await settle();
+        assert.equal(calls, 2);
+        mock.timers.tick(500);
+
+        assert.equal(await result, 'ok');
+        assert.equal(logger.messages.length, 2);
+        assert.match(logger.messages[0], /Rate limited on \/quote, backing off \d+ms \(retry 1\/3\)/);
+    });
+
+    it('gives up after maxRetries and does not retry when asked not to', async () => {
+        const logger = recordingLogger();
+        const scheduler = new RequestScheduler({ maxRetries: 1, initialBackoffMs: 10, logger });
+        let calls = 0;
+        const limited = async () => { calls++; throw new RateLimitError('Too Many Requests'); };
+
+        const exhausted = assert.rejects(scheduler.schedule({ group: 'swap', key: 'a' }, limited), { name: 'RateLimitError' });
+        await settle();
+        mock.timers.tick(300);
+        await exhausted;
+        assert.equal(calls, 2);
+        assert.equal(logger.messages.length, 1);
+
+        calls = 0;
+        mock.timers.tick(1_000);
+        await assert.rejects(
+            scheduler.schedule({ group: 'swap', key: 'b', retryRateLimits: false }, limited),
+            { name: 'RateLimitError' }
+        );
+        assert.equal(calls, 1);
+        assert.equal(logger.messages.length, 1);
+    });
+});
@@ -0,0 +1,251 @@
+/**
+ * Client-side rate limiting for OKX API requests
+ *
+ * Requests are queued by priority and released when both the token bucket of
+ * their endpoint group and the bucket of their API key have capacity. Rate
+ * limit errors from the API pause the affected buckets and the request is
+ * retried with exponential backoff.
+ */
+
+import { ENDPOINTS } from './endpoints';
+import { RateLimitError } from './errors';
+import { Logger, silentLogger } from './logger';
+
+// =================
+// Configuration
+// =================
+
+export type EndpointGroup = 'swap' | 'quote' | 'metadata';
+
+/** Lower values are dispatched first */
+export const RequestPriority = {
+    HIGH: 0,
+    NORMAL: 1,
+    LOW: 2,
+} as const;
+
+export interface TokenBucketOptions {
+    capacity: number;
+    refillPerSecond: number;
+}
+
+export interface RateLimitOptions {
+    /** Limits shared by every request in an endpoint group */
+    groups?: Partial<Record<EndpointGroup, TokenBucketOptions>>;
+    /** Limit applied to each API key separately */
+    perKey?: TokenBucketOptions;
+    /** Retries after a rate limit error before giving up */
+    maxRetries?: number;
+    initialBackoffMs?: number;
+    maxBackoffMs?: number;
+    /** Told about each backoff; silent by default */
+    logger?: Logger;
+}
+
+export const DEFAULT_RATE_LIMITS: Required<RateLimitOptions> = {
+    groups: {},
+    perKey: { capacity: 5, refillPerSecond: 5 },
+    maxRetries: 3,
+    initialBackoffMs: 1000,
+    maxBackoffMs: 10000,
+    logger: silentLogger,
+};
+
+const GROUP_PRIORITY: Record<EndpointGroup, number> = {
+    swap: RequestPriority.HIGH,
+    quote: RequestPriority.NORMAL,
+    metadata: RequestPriority.LOW,
+};
+
+export function endpointGroup(requestPath: string): EndpointGroup {
+    switch (requestPath) {
+        case ENDPOINTS.SWAP:
+        case ENDPOINTS.SWAP_INSTRUCTION:
+        case ENDPOINTS.APPROVE_TRANSACTION:
+        case ENDPOINTS.BROADCAST_TRANSACTION:
+            return 'swap';
+        case ENDPOINTS.QUOTE:
+        case ENDPOINTS.CROSS_CHAIN_QUOTE:
+            return 'quote';
+        default:
+            return 'metadata';
+    }
+}
+
+export function defaultPriority(group: EndpointGroup): number {
+    return GROUP_PRIORITY[group];
+}
+
+// =================
+// Token Bucket
+// =================
+
+export class TokenBucket {
+    private tokens: number;
+    private updatedAt: number;
+    private pausedUntil = 0;
+
+    constructor(private readonly options: TokenBucketOptions) {
+        this.tokens = options.capacity;
+        this.updatedAt = Date.now();
+    }
+
+    /** Milliseconds until a token is available; 0 when one can be taken now */
+    waitTime(now = Date.now()): number {
+        this.refill(now);
+        if (now < this.pausedUntil) return this.pausedUntil - now;
+        if (this.tokens >= 1) return 0;
+        return Math.ceil(((1 - this.tokens) / this.options.refillPerSecond) * 1000);
+    }
+
+    take(now = Date.now()): void {
+        this.refill(now);
+        this.tokens -= 1;
+    }
+
+    /** Empties the bucket and blocks it for the given duration */
+    pause(ms: number, now = Date.now()): void {
+        this.tokens = 0;
+        this.updatedAt = now;
+        this.pausedUntil = Math.max(this.pausedUntil, now + ms);
+    }
+
+    private refill(now: number): void {
+        const elapsed = Math.max(0, now - this.updatedAt) / 1000;
+        this.tokens = Math.min(this.options.capacity, this.tokens + elapsed * this.options.refillPerSecond);
+        this.updatedAt = now;
+    }
+}
+
+// =================
+// Scheduler
+// =================
+
+export interface ScheduledRequest {
+    group: EndpointGroup;
+    /** Identifies the API key the request is signed with */
+    key: string;
+    priority?: number;
+    /** Set to false when the caller handles rate limit errors itself */
+    retryRateLimits?: boolean;
+}
+
+interface QueueEntry {
+    group: EndpointGroup;
+    key: string;
+    priority: number;
+    seq: number;
+    release: () => void;
+}
+
+export class RequestScheduler {
+    private readonly options: Required<RateLimitOptions>;
+    private readonly groupBuckets = new Map<EndpointGroup, TokenBucket>();
+    private readonly keyBuckets = new Map<string, TokenBucket>();
+    private readonly queue: QueueEntry[] = [];
+    private timer?: ReturnType<typeof setTimeout>;
+    private seq = 0;
+
+    constructor(options: RateLimitOptions = {}) {
+        this.options = { ...DEFAULT_RATE_LIMITS, ...options, logger: options.logger ?? silentLogger };
+    }
+
+    /**
+     * Runs the operation once its buckets have capacity, retrying with
+     * backoff when it fails with a RateLimitError.
+     */
+    async schedule<T>(request: ScheduledRequest, operation: () => Promise<T>): Promise<T> {
+        for (let attempt = 0; ; attempt++) {
+            await this.acquire(request);
+            try {
+                return await operation();
+            } catch (error) {
+                if (!(error instanceof RateLimitError)) throw error;
+
+                // Pause the buckets either way so queued requests on this key back off too
+                const delay = this.backoff(attempt);
+                this.groupBucket(request.group)?.pause(delay);
+                this.keyBucket(request.key)?.pause(delay);
+
+                if (request.retryRateLimits === false || attempt >= this.options.maxRetries) {
+                    throw error;
+                }
+
+                this.options.logger.warn(`Rate limited on ${error.path ?? request.group}, backing off ${delay}ms (retry ${attempt + 1}/${this.options.maxRetries})`);
+            }
+        }
+    }
+
+    /** Number of requests waiting for capacity */
+    get pending(): number {
+        return this.queue.length;
+    }
+
+    private acquire(request: ScheduledRequest): Promise<void> {
+        return new Promise(resolve => {
+            this.queue.push({
+                group: request.group,
+                key: request.key,
+                priority: request.priority ?? defaultPriority(request.group),
+                seq: this.seq++,
+                release: resolve
+            });
+            this.queue.sort((a, b) => a.priority - b.priority || a.seq - b.seq);
+            this.drain();
+        });
+    }
+
+    private drain(): void {
+        if (this.timer) {
+            clearTimeout(this.timer);
+            this.timer = undefined;
+        }
+
+        const now = Date.now();
+        let nextWait = Infinity;
+
+        for (let i = 0; i < this.queue.length;) {
+            const entry = this.queue[i];
+            const buckets = [this.groupBucket(entry.group), this.keyBucket(entry.key)]
+                .filter((bucket): bucket is TokenBucket => bucket !== undefined);
+            const wait = Math.max(0, ...buckets.map(bucket => bucket.waitTime(now)));
+
+            if (wait === 0) {
+                buckets.forEach(bucket => bucket.take(now));
+                this.queue.splice(i, 1);
+                entry.release();
+            } else {
+                nextWait = Math.min(nextWait, wait);
+                i++;
+            }
+        }
+
+        if (this.queue.length > 0 && nextWait !== Infinity) {
+            this.timer = setTimeout(() => this.drain(), nextWait);
+        }
+    }
+
+    private groupBucket(group: EndpointGroup): TokenBucket | undefined {
+        const limits = this.options.groups[group];
+        if (!limits) return undefined;
+        if (!this.groupBuckets.has(group)) {
+            this.groupBuckets.set(group, new TokenBucket(limits));
+        }
+        return this.groupBuckets.get(group);
+    }
+
+    private keyBucket(key: string): TokenBucket | undefined {
+        if (!this.options.perKey) return undefined;
+        if (!this.keyBuckets.has(key)) {
+            this.keyBuckets.set(key, new TokenBucket(this.options.perKey));
+        }
+        return this.keyBuckets.get(key);
+    }
+
+    private backoff(attempt: number): number {
+        // Exponential backoff with jitter
+        const exponentialDelay = this.options.initialBackoffMs * Math.pow(2, attempt);
+        const jitter = Math.random() * this.options.initialBackoffMs;
+        return Math.round(Math.min(exponentialDelay + jitter, this.options.maxBackoffMs));
+    }
+}
@@ -0,0 +1,183 @@
+/**
+ * Minimal runtime validators for OKX API payloads
+ *
+ * Each validator checks an unknown value and returns it typed, or throws a
+ * SchemaIssue naming the offending field path. TypeScript types are inferred
+ * from the validators so the two never drift apart.
+ */
+
+import { OkxDexError } from './errors';
+
+export type Validator<T> = (value: unknown, path: string) => T;
+
+export type Infer<V> = V extends Validator<infer T> ? T : never;
+
+type Simplify<T> = { [K in keyof T]: T[K] } & {};
+
+type OptionalKeys<S> = {
+    [K in keyof S]: undefined extends Infer<S[K]> ? K : never
+}[keyof S];
+
+type RequiredKeys<S> = Exclude<keyof S, OptionalKeys<S>>;
+
+export type ObjectType<S extends Record<string, Validator<unknown>>> = Simplify<
+    { [K in RequiredKeys<S>]: Infer<S[K]> } &
+    { [K in OptionalKeys<S>]?: Infer<S[K]> }
+>;
+
+// =================
+// Errors
+// =================
+
+export class SchemaIssue extends Error {
+    constructor(
+        readonly path: string,
+        readonly expected: string,
+        readonly received: unknown
+    ) {
+        super(`expected ${expected} at ${path}, received ${describe(received)}`);
+        this.name = 'SchemaIssue';
+    }
+}
+
+export class ResponseValidationError extends OkxDexError {
+    constructor(
+        readonly endpoint: string,
+        readonly fieldPath: string,
+        readonly expected: string,
+        readonly received: unknown
+    ) {
+        super(
+            `Invalid response from ${endpoint}: expected ${expected} at ${fieldPath}, received ${describe(received)}`,
+            { path: endpoint }
+        );
+    }
+}
+
+function describe(value: unknown): string {
+    if (value === null) return 'null';
+    if (Array.isArray(value)) return 'array';
+    if (typeof value === 'string') return `string "${value.length > 40 ? value.slice(0, 40) + '…' : value}"`;
+    return typeof value;
+}
+
+// =================
+// Primitives
+// =================
+
+export const string: Validator<string> = (value, path) => {
+    if (typeof value !== 'string') throw new SchemaIssue(path, 'string', value);
+    return value;
+};
+
+/** Accepts numbers or numeric strings and normalizes them to strings, as OKX mixes both. */
+export const numericString: Validator<string> = (value, path) => {
+    if (typeof value === 'number' && Number.isFinite(value)) return String(value);
+    if (typeof value === 'string' && value.trim() !== '' && !isNaN(Number(value))) return value;
+    throw new SchemaIssue(path, 'numeric string', value);
+};
+
+export const number: Validator<number> = (value, path) => {
+    if (typeof value !== 'number' || !Number.isFinite(value)) throw new SchemaIssue(path, 'number', value);
+    return value;
+};
+
+export const positiveInteger: Validator<number> = (value, path) => {
+    if (typeof value !== 'number' || !Number.isInteger(value) || value <= 0) throw new SchemaIssue(path, 'positive integer', value);
+    return value;
+};
+
+export const boolean: Validator<boolean> = (value, path) => {
+    if (typeof value !== 'boolean') throw new SchemaIssue(path, 'boolean', value);
+    return value;
+};
+
+export const unknown: Validator<unknown> = (value) => value;
+
+// =================
+// Combinators
+// =================
+
+export function optional<T>(validator: Validator<T>): Validator<T | undefined> {
+    return (value, path) => value === undefined ? undefined : validator(value, path);
+}
+
+export function nullable<T>(validator: Validator<T>): Validator<T | null> {
+    return (value, path) => value === null ? null : validator(value, path);
+}
+
+export function array<T>(validator: Validator<T>): Validator<T[]> {
+    return (value, path) => {
+        if (!Array.isArray(value)) throw new SchemaIssue(path, 'array', value);
+        return value.map((item, index) => validator(item, `${path}[${index}]`));
+    };
+}
+
+export function oneOf<T extends string>(...values: readonly T[]): Validator<T> {
+    return (value, path) => {
+        if (!values.includes(value as T)) throw new SchemaIssue(path, `one of ${values.join(', ')}`, value);
+        return value as T;
+    };
+}
+
+/** An object used as a map, validating every value */
+export function record<T>(validator: Validator<T>): Validator<Record<string, T>> {
+    return (value, path) => {
+        if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+            throw new SchemaIssue(path, 'object', value);
+        }
+        return Object.fromEntries(
+            Object.entries(value).map(([key, item]) => [key, validator(item, `${path}.${key}`)])
+        );
+    };
+}
+
+/**
+ * Validates the listed fields and keeps any other fields untouched, so new
+ * API fields do not break existing callers.
+ */
+export function object<S extends Record<string, Validator<unknown>>>(shape: S): Validator<ObjectType<S>> {
+    return (value, path) => {
+        if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+            throw new SchemaIssue(path, 'object', value);
+        }
+
+        const result: Record<string, unknown> = { ...value };
+        for (const [key, validator] of Object.entries(shape)) {
+            const field = validator((value as Record<string, unknown>)[key], `${path}.${key}`);
+            if (field !== undefined) result[key] = field;
+        }
+        return result as ObjectType<S>;
+    };
+}
+
+/**
+ * Like object, but rejects fields outside the shape. Meant for hand-written
+ * files such as configuration, where an unknown field is usually a typo.
+ */
+export function strictObject<S extends Record<string, Validator<unknown>>>(shape: S): Validator<ObjectType<S>> {
+    const validateShape = object(shape);
+    return (value, path) => {
+        const result = validateShape(value, path);
+        const unknownKey = Object.keys(result).find(key => !(key in shape));
+        if (unknownKey !== undefined) {
+            throw new SchemaIssue(`${path}.${unknownKey}`, `a known field (${Object.keys(shape).join(', ')})`, unknownKey);
+        }
+        return result;
+    };
+}
+
+/**
+ * Runs a validator against an endpoint payload, converting schema issues into
+ * a ResponseValidationError that names the endpoint.
+ */
+export function validate<T>(endpoint: string, validator: Validator<T>, value: unknown, path = 'data'): T {
+    try {
+        return validator(value, path);
+    } catch (error) {
+        if (error instanceof SchemaIssue) {
+            throw new ResponseValidationError(endpoint, error.path, error.expected, error.received);
+        }
+        throw error;
+    }
+}
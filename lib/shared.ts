@@ -1,27 +1,37 @@
 import CryptoJS from 'crypto-js';
 import dotenv from 'dotenv';
+import { OkxCredentials, readEnvCredentials } from './credentials';
+import { serverClock } from './clock';
 
 dotenv.config();
 
-export function getHeaders(timestamp: string, method: string, requestPath: string, queryString = "") {
-    const apiKey = process.env.OKX_API_KEY;
-    const secretKey = process.env.OKX_SECRET_KEY;
-    const apiPassphrase = process.env.OKX_API_PASSPHRASE;
-    const projectId = process.env.OKX_PROJECT_ID;
-
-    if (!apiKey || !secretKey || !apiPassphrase || !projectId) {
-        throw new Error("Missing required environment variables");
-    }
-
-    const stringToSign = timestamp + method + requestPath + queryString;
+/**
+ * Builds the OK-ACCESS-* headers. The prehash is timestamp + method + path
+ * followed by the query string (including `?`) for GET requests, or the exact
+ * JSON body sent for POST requests.
+ */
+export function signRequest(
+    credentials: OkxCredentials,
+    timestamp: string,
+    method: string,
+    requestPath: string,
+    queryStringOrBody = ""
+) {
+    const stringToSign = timestamp + method.toUpperCase() + requestPath + queryStringOrBody;
     return {
         "Content-Type": "application/json",
-        "OK-ACCESS-KEY": apiKey,
+        "OK-ACCESS-KEY": credentials.apiKey,
         "OK-ACCESS-SIGN": CryptoJS.enc.Base64.stringify(
-            CryptoJS.HmacSHA256(stringToSign, secretKey)
+            CryptoJS.HmacSHA256(stringToSign, credentials.secretKey)
         ),
         "OK-ACCESS-TIMESTAMP": timestamp,
-        "OK-ACCESS-PASSPHRASE": apiPassphrase,
-        "OK-ACCESS-PROJECT": projectId,
+        "OK-ACCESS-PASSPHRASE": credentials.passphrase,
+        "OK-ACCESS-PROJECT": credentials.projectId,
     };
-}
\ No newline at end of file
+}
+
+// Signs with the OKX_* environment variables; use signRequest for other credentials.
+// The timestamp is shifted by the clock offset measured against the OKX server.
+export function getHeaders(timestamp: string, method: string, requestPath: string, queryStringOrBody = "") {
+    return signRequest(readEnvCredentials(), serverClock.correct(timestamp), method, requestPath, queryStringOrBody);
+}
@@ -0,0 +1,68 @@
+/**
+ * Results of dry-running a swap
+ *
+ * In dry-run mode the executors quote, build and sign a swap as usual, then
+ * simulate the signed transaction against current chain state instead of
+ * broadcasting it, so a swap can be checked end to end without spending
+ * funds. EVM swaps are simulated with eth_call before signing, and a failed
+ * simulation also stops a live EVM swap from being broadcast.
+ */
+
+import chalk from 'chalk';
+import { formatUnits } from './amount';
+
+export interface BalanceChange {
+    symbol: string;
+    /** Signed change in token units, e.g. "-1.5" */
+    change: string;
+    before?: string;
+    after?: string;
+}
+
+export interface SimulationReport {
+    success: boolean;
+    /** Why the simulated transaction failed */
+    error?: string;
+    /** Balance changes of the wallet, including network fees */
+    balanceChanges: BalanceChange[];
+    /** Program logs (Solana), emitted event types (Sui) or output checks (EVM) */
+    logs: string[];
+    /** Compute units (Solana), gas (Sui) or estimated gas (EVM) consumed */
+    gasUsed?: string;
+}
+
+/** Balance change between two base-unit amounts, or undefined when nothing changed */
+export function balanceChange(symbol: string, decimals: number, before: bigint, after: bigint): BalanceChange | undefined {
+    if (before === after) return undefined;
+    return {
+        symbol,
+        change: formatChange(after - before, decimals),
+        before: formatUnits(before, decimals),
+        after: formatUnits(after, decimals),
+    };
+}
+
+/** Signed token units of a base-unit difference, e.g. "+1.5" or "-0.25" */
+export function formatChange(delta: bigint, decimals: number): string {
+    const units = formatUnits(delta, decimals);
+    return delta > 0n ? `+${units}` : units;
+}
+
+export function formatSimulationReport(report: SimulationReport): string {
+    const lines = [
+        chalk.bold('Simulation:') + ' ' + (report.success ? chalk.green('success') : chalk.red(`failed: ${report.error ?? 'unknown error'}`)),
+    ];
+    if (report.gasUsed) lines.push(`Gas Used: ${report.gasUsed}`);
+
+    lines.push('Balance Changes:');
+    if (report.balanceChanges.length === 0) lines.push('  (none)');
+    for (const { symbol, change, before, after } of report.balanceChanges) {
+        const range = before !== undefined && after !== undefined ? chalk.dim(` (${before} → ${after})`) : '';
+        lines.push(`  ${change.startsWith('-') ? chalk.red(change) : chalk.green(change)} ${symbol}${range}`);
+    }
+
+    if (report.logs.length > 0) {
+        lines.push('Logs:', ...report.logs.map(log => chalk.dim(`  ${log}`)));
+    }
+    return lines.join('\n');
+}
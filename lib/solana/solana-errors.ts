@@ -0,0 +1,45 @@
+// Error mapping shared by the Solana swap executors
+import {
+    BlockheightBasedTransactionConfirmationStrategy,
+    Commitment,
+    Connection,
+    TransactionExpiredBlockheightExceededError,
+    TransactionExpiredTimeoutError
+} from "@solana/web3.js";
+import { ConfirmationTimeoutError, RpcError, withRpcErrors } from "../errors";
+
+/**
+ * Waits for a transaction to reach the given commitment. Expired blockhashes
+ * and confirmation timeouts raise ConfirmationTimeoutError; a transaction that
+ * landed with an error raises a non-retryable RpcError, since resending it
+ * would only pay fees for the same failure.
+ */
+export async function confirmSolanaTransaction(
+    connection: Connection,
+    strategy: BlockheightBasedTransactionConfirmationStrategy,
+    commitment: Commitment = 'confirmed'
+) {
+    const confirmation = await withRpcErrors('confirmTransaction', async () => {
+        try {
+            return await connection.confirmTransaction(strategy, commitment);
+        } catch (error) {
+            if (error instanceof TransactionExpiredBlockheightExceededError ||
+                error instanceof TransactionExpiredTimeoutError) {
+                throw new ConfirmationTimeoutError(strategy.signature, error.message, {
+                    path: 'confirmTransaction',
+                    cause: error
+                });
+            }
+            throw error;
+        }
+    });
+
+    if (confirmation.value.err) {
+        throw new RpcError(`Transaction failed: ${JSON.stringify(confirmation.value.err)}`, {
+            path: 'confirmTransaction',
+            retryable: false
+        });
+    }
+
+    return confirmation;
+}
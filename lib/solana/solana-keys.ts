@@ -0,0 +1,8 @@
+// Key handling shared by the Solana executors and the doctor command
+import base58 from "bs58";
+import { Keypair } from "@solana/web3.js";
+
+/** Address of a base58-encoded 64-byte secret key, as used in PRIVATE_KEY */
+export function solanaAddressFromPrivateKey(privateKey: string): string {
+    return Keypair.fromSecretKey(base58.decode(privateKey.trim())).publicKey.toBase58();
+}
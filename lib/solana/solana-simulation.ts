@@ -0,0 +1,120 @@
+// Dry-run simulation shared by the Solana swap executors
+import {
+    AccountInfo,
+    Connection,
+    PublicKey,
+    SimulatedTransactionAccountInfo,
+    Transaction,
+    VersionedTransaction
+} from "@solana/web3.js";
+import { TokenMetadata } from "../client";
+import { CHAINS, isNativeToken } from "../chains";
+import { withRpcErrors } from "../errors";
+import { BalanceChange, SimulationReport, balanceChange } from "../simulation";
+
+const ASSOCIATED_TOKEN_PROGRAM_ID = new PublicKey("ATokenGPvbd2VwYT9QXqoRkcaEJRKx8qS4wAZJ7xXXb9");
+
+// SPL token accounts (and the base layout of Token-2022 ones) keep the u64 amount at this offset
+const TOKEN_AMOUNT_OFFSET = 64;
+
+/**
+ * Simulates a signed transaction and reports how it would change the owner's
+ * SOL balance and its token accounts for the given tokens. The owner's
+ * existing accounts for each token are tracked along with its associated
+ * token account, which swaps create when it does not exist yet.
+ */
+export async function simulateSolanaTransaction(
+    connection: Connection,
+    transaction: VersionedTransaction | Transaction,
+    owner: PublicKey,
+    tokens: TokenMetadata[] = []
+): Promise<SimulationReport> {
+    const tracked = await trackedTokenAccounts(connection, owner, tokens);
+    const addresses = [owner, ...tracked.map(account => account.address)];
+
+    const before = await withRpcErrors('getMultipleAccountsInfo', () =>
+        connection.getMultipleAccountsInfo(addresses)
+    );
+    const { value } = await withRpcErrors('simulateTransaction', () =>
+        transaction instanceof VersionedTransaction
+            ? connection.simulateTransaction(transaction, {
+                sigVerify: true,
+                accounts: { encoding: 'base64', addresses: addresses.map(address => address.toBase58()) }
+            })
+            : connection.simulateTransaction(transaction, undefined, addresses)
+    );
+    const after = value.accounts ?? [];
+
+    // Accounts of the same token are summed, e.g. an existing account plus a new associated one
+    const totals = new Map<string, { token: TokenMetadata; before: bigint; after: bigint }>();
+    tracked.forEach(({ token }, index) => {
+        const total = totals.get(token.tokenContractAddress) ?? { token, before: 0n, after: 0n };
+        total.before += tokenAmount(before[index + 1]);
+        total.after += tokenAmount(after[index + 1]);
+        totals.set(token.tokenContractAddress, total);
+    });
+
+    const changes = [
+        balanceChange(CHAINS.SOLANA.nativeSymbol, CHAINS.SOLANA.nativeDecimals,
+            BigInt(before[0]?.lamports ?? 0), BigInt(after[0]?.lamports ?? 0)),
+        ...[...totals.values()].map(({ token, before, after }) =>
+            balanceChange(token.symbol, token.decimals, before, after)
+        )
+    ];
+
+    return {
+        success: value.err === null,
+        error: value.err === null ? undefined : JSON.stringify(value.err),
+        balanceChanges: changes.filter((change): change is BalanceChange => change !== undefined),
+        logs: value.logs ?? [],
+        gasUsed: value.unitsConsumed === undefined ? undefined : `${value.unitsConsumed} compute units`
+    };
+}
+
+interface TrackedAccount {
+    address: PublicKey;
+    token: TokenMetadata;
+}
+
+async function trackedTokenAccounts(
+    connection: Connection,
+    owner: PublicKey,
+    tokens: TokenMetadata[]
+): Promise<TrackedAccount[]> {
+    // Native SOL is covered by the owner's lamports
+    const splTokens = tokens.filter(token => !isNativeToken(CHAINS.SOLANA.chainId, token.tokenContractAddress));
+    if (splTokens.length === 0) return [];
+
+    const mints = splTokens.map(token => new PublicKey(token.tokenContractAddress));
+    // The mint's owner is its token program, which the associated account address depends on
+    const mintAccounts = await withRpcErrors('getMultipleAccountsInfo', () =>
+        connection.getMultipleAccountsInfo(mints)
+    );
+
+    const tracked = new Map<string, TrackedAccount>();
+    for (const [index, token] of splTokens.entries()) {
+        const mint = mints[index];
+        const existing = await withRpcErrors('getTokenAccountsByOwner', () =>
+            connection.getTokenAccountsByOwner(owner, { mint })
+        );
+        for (const { pubkey } of existing.value) {
+            tracked.set(pubkey.toBase58(), { address: pubkey, token });
+        }
+
+        const tokenProgram = mintAccounts[index]?.owner;
+        if (tokenProgram) {
+            const [associated] = PublicKey.findProgramAddressSync(
+                [owner.toBuffer(), tokenProgram.toBuffer(), mint.toBuffer()],
+                ASSOCIATED_TOKEN_PROGRAM_ID
+            );
+            tracked.set(associated.toBase58(), { address: associated, token });
+        }
+    }
+    return [...tracked.values()];
+}
+
+function tokenAmount(account: AccountInfo<Buffer> | SimulatedTransactionAccountInfo | null | undefined): bigint {
+    if (!account) return 0n;
+    const data = Buffer.isBuffer(account.data) ? account.data : Buffer.from(account.data[0], 'base64');
+    return data.length >= TOKEN_AMOUNT_OFFSET + 8 ? data.readBigUInt64LE(TOKEN_AMOUNT_OFFSET) : 0n;
+}
@@ -1,36 +1,27 @@
 // scripts/solana-quote.ts
-import { getHeaders } from '../../shared';
+import { OkxDexClient, QuoteParams } from '../../client';
+import { CHAINS } from '../../chains';
+import { QUOTE_OUTPUT, printOutput } from '../../output';
 
-async function getQuote(params: any) {
-    const timestamp = new Date().toISOString();
-    const requestPath = "/api/v5/dex/aggregator/quote";
-    const queryString = "?" + new URLSearchParams({
-        ...params,
-    }).toString();
+const client = new OkxDexClient();
 
-    const headers = getHeaders(timestamp, "GET", requestPath, queryString);
-    const response = await fetch(`https://www.okx.com${requestPath}${queryString}`, {
-        method: "GET",
-        headers
-    });
-
-    const data = await response.json();
-    return data;
+async function getQuote(params: QuoteParams) {
+    return client.getQuote(params);
 }
 
 async function main() {
     try {
-        console.log('Getting Solana quote...');
+        console.error('Getting Solana quote...');
 
         const quote = await getQuote({
-            chainId: '501',
+            chainId: CHAINS.SOLANA.chainId,
             amount: '10000000000',
-            fromTokenAddress: 'So11111111111111111111111111111111111111112',
+            fromTokenAddress: CHAINS.SOLANA.wrappedNativeAddress,
             toTokenAddress: 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v',
             slippage: '0.1',
         });
 
-        console.log(JSON.stringify(quote, null, 2));
+        printOutput(quote, QUOTE_OUTPUT);
 
     } catch (error) {
         console.error('Failed to get quote:', error);
@@ -1,31 +1,22 @@
 // scripts/solana-swap.ts
-import { getHeaders } from '../../shared';
+import { OkxDexClient, SwapParams } from '../../client';
+import { CHAINS } from '../../chains';
+import { SWAP_OUTPUT, printOutput } from '../../output';
 
-async function getQuote(params: any) {
-    const timestamp = new Date().toISOString();
-    const requestPath = "/api/v5/dex/aggregator/swap";
-    const queryString = "?" + new URLSearchParams({
-        ...params,
-    }).toString();
+const client = new OkxDexClient();
 
-    const headers = getHeaders(timestamp, "GET", requestPath, queryString);
-    const response = await fetch(`https://www.okx.com${requestPath}${queryString}`, {
-        method: "GET",
-        headers
-    });
-
-    const data = await response.json();
-    return data;
+async function getQuote(params: SwapParams) {
+    return client.getSwap(params);
 }
 
 async function main() {
     try {
-        console.log('Getting Solana swap data...');
+        console.error('Getting Solana swap data...');
 
         const quote = await getQuote({
-            chainId: '501',
+            chainId: CHAINS.SOLANA.chainId,
             amount: '10000000000',
-            fromTokenAddress: 'So11111111111111111111111111111111111111112',
+            fromTokenAddress: CHAINS.SOLANA.wrappedNativeAddress,
             toTokenAddress: 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v',
             userWalletAddress: "HghFVR3KBYcbgh63cJYmCCu9mzUYMYQRPT5aMrCutMct",
             slippage: '0.1',
@@ -33,7 +24,7 @@ async function main() {
             maxAutoSlippageBps: "100"
         });
 
-        console.log(JSON.stringify(quote, null, 2));
+        printOutput(quote, SWAP_OUTPUT);
 
     } catch (error) {
         console.error('Failed to get quote:', error);
@@ -13,6 +13,8 @@ import {
 } from "@solana/web3.js";
 import base58 from "bs58";    // Required for private key decoding
 import dotenv from "dotenv";  // Environment variable management
+import { OkxDexClient, SwapInstructionParams } from "../../client";
+import { CHAINS, explorerTxUrl } from "../../chains";
 dotenv.config();
 
 async function main() {
@@ -29,16 +31,17 @@ async function main() {
         Uint8Array.from(base58.decode(process.env.PRIVATE_KEY?.toString() || ""))
     );
 
-    // DEX aggregator API endpoint
-    // This endpoint provides optimized swap routes across multiple DEXs
-    const baseUrl = "https://beta.okex.org/api/v5/dex/aggregator/swap-instruction";
+    // DEX aggregator client
+    // The swap-instruction endpoint is served unsigned from the beta environment
+    // unless OKX_DEX_ENV selects another profile
+    const client = new OkxDexClient({ environment: process.env.OKX_DEX_ENV || "beta" });
     
     // Swap configuration parameters
-    const params = {
-            chainId: "501",              // Solana mainnet chain ID
+    const params: SwapInstructionParams = {
+            chainId: CHAINS.SOLANA.chainId,
             feePercent: "1",            // Platform fee percentage
             amount: "1000000",          // Amount in smallest denomination (e.g., lamports for SOL)
-            fromTokenAddress: "11111111111111111111111111111111",  // SOL mint address
+            fromTokenAddress: CHAINS.SOLANA.nativeTokenAddress,
             toTokenAddress: "EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v",  // USDC mint address
             slippage: "0.1",            // Slippage tolerance in percentage
             userWalletAddress: process.env.WALLET_ADDRESS || "",   // Wallet performing the swap
@@ -64,17 +67,15 @@ async function main() {
 
     // Fetch optimal swap route and instructions from DEX
     // This call finds the best price across different DEX liquidity pools
-    const url = `${baseUrl}?${new URLSearchParams(params).toString()}`;
-    const { data: { instructionLists, addressLookupTableAddresses } } =
-        await fetch(url, {
-            method: 'GET',
-            headers: { 'Content-Type': 'application/json' }
-        }).then(res => res.json());
+    const { instructionLists, addressLookupTableAddresses, addressLookupTableAccount } =
+        await client.getSwapInstruction(params);
 
     // Process DEX instructions into Solana-compatible format
     const instructions: TransactionInstruction[] = [];
     // Remove duplicate lookup table addresses returned by DEX
-    const addressLookupTableAddresses2 = Array.from(new Set(addressLookupTableAddresses));
+    const addressLookupTableAddresses2 = Array.from(new Set(
+        addressLookupTableAddresses ?? addressLookupTableAccount ?? []
+    ));
     console.log("Lookup tables to load:", addressLookupTableAddresses2);
     
     // Convert each DEX instruction to Solana format
@@ -154,7 +155,7 @@ async function main() {
     
     // Log transaction results
     console.log("Transaction ID:", txId);
-    console.log("Explorer URL:", `https://solscan.io/tx/${txId}`);
+    console.log("Explorer URL:", explorerTxUrl(CHAINS.SOLANA.chainId, txId));
     
     process.exit(0);
 }
@@ -13,9 +13,16 @@ import {
     Keypair,
     PublicKey
 } from "@solana/web3.js";
-import cryptoJS from "crypto-js";
 import dotenv from 'dotenv';
-import { getHeaders } from "../../shared";
+import { OkxDexClient, QuoteParams, SwapParams, TokenMetadata } from "../../client";
+import { CHAINS, explorerTxUrl } from "../../chains";
+import { DEFAULT_SLIPPAGE, loadProfile, rpcUrlFor, walletFor } from "../../config";
+import { QuoteData, SwapData } from "../../models";
+import { parseUnits } from "../../amount";
+import { OkxDexError, RpcError, SigningError, isRetryable } from "../../errors";
+import { SimulationReport, formatSimulationReport } from "../../simulation";
+import { confirmSolanaTransaction } from "../solana-errors";
+import { simulateSolanaTransaction } from "../solana-simulation";
 
 // Load environment variables
 dotenv.config();
@@ -37,16 +44,6 @@ interface SwapQuote {
     quote?: any;
 }
 
-interface SwapParams {
-    chainId: string;
-    amount: string;
-    fromTokenAddress: string;
-    toTokenAddress: string;
-    slippage: string;
-    priceImpactProtectionPercentage: string;
-    userWalletAddress: string;
-}
-
 interface TradeChunk {
     amount: string;
     fromTokenAddress: string;
@@ -58,21 +55,25 @@ interface TradeChunk {
 // Configuration
 // =================
 
+// Built-in defaults; the .okxdexrc profile's "mev" settings take precedence
+const profile = loadProfile();
+const mev = profile.mev ?? {};
+
 const MEV_PROTECTION = {
     // Trade Protection
-    MAX_PRICE_IMPACT: "0.05",        // 5% max price impact
+    MAX_PRICE_IMPACT: mev.maxPriceImpact ?? "0.05",  // 5% max price impact
     SLIPPAGE: "0.05",                // 5% slippage tolerance
     MIN_ROUTES: 2,                   // Minimum DEX routes
 
     // Priority Fees
-    MIN_PRIORITY_FEE: 10_000,
-    MAX_PRIORITY_FEE: 1_000_000,
-    PRIORITY_MULTIPLIER: 2,
+    MIN_PRIORITY_FEE: mev.minPriorityFee ?? 10_000,
+    MAX_PRIORITY_FEE: mev.maxPriorityFee ?? 1_000_000,
+    PRIORITY_MULTIPLIER: mev.priorityMultiplier ?? 2,
 
     // TWAP Settings
-    TWAP_ENABLED: true,
-    TWAP_INTERVALS: 4,               // Split into 4 parts
-    TWAP_DELAY_MS: 2000,            // 2s between trades
+    TWAP_ENABLED: mev.twap ?? true,
+    TWAP_INTERVALS: mev.twapIntervals ?? 4,  // Split into 4 parts
+    TWAP_DELAY_MS: mev.twapDelayMs ?? 2000,  // 2s between trades
 
     // Transaction Settings
     COMPUTE_UNITS: 300_000,
@@ -80,32 +81,30 @@ const MEV_PROTECTION = {
     CONFIRMATION_TIMEOUT: 60_000,
 
     // Block Targeting
-    TARGET_SPECIFIC_BLOCKS: true,
+    TARGET_SPECIFIC_BLOCKS: mev.targetSpecificBlocks ?? true,
     PREFERRED_SLOT_OFFSET: 2,        // Target blocks with slot % 4 == 2
 } as const;
 
 const CONFIG = {
-    CHAIN_ID: "501",                 // Solana mainnet
+    CHAIN_ID: CHAINS.SOLANA.chainId,
     BASE_COMPUTE_UNITS: 300000,
     MAX_RETRIES: 3,
-    SLIPPAGE: "0.5"
+    SLIPPAGE: profile.slippage ?? DEFAULT_SLIPPAGE
 } as const;
 
-// Environment validation
-function getRequiredEnvVar(name: string): string {
-    const value = process.env[name];
+// Environment validation; wallet and RPC settings may also come from the profile
+function getRequiredEnvVar(name: string, fallback?: string): string {
+    const value = process.env[name] || fallback;
     if (!value) throw new Error(`${name} is required`);
     return value;
 }
 
+const wallet = walletFor(profile, CHAINS.SOLANA);
+
 const ENV = {
-    OKX_API_KEY: getRequiredEnvVar('OKX_API_KEY'),
-    OKX_SECRET_KEY: getRequiredEnvVar('OKX_SECRET_KEY'),
-    OKX_API_PASSPHRASE: getRequiredEnvVar('OKX_API_PASSPHRASE'),
-    OKX_PROJECT_ID: getRequiredEnvVar('OKX_PROJECT_ID'),
-    WALLET_ADDRESS: getRequiredEnvVar('WALLET_ADDRESS'),
-    PRIVATE_KEY: getRequiredEnvVar('PRIVATE_KEY'),
-    RPC_URL: getRequiredEnvVar('SOLANA_RPC_URL')
+    WALLET_ADDRESS: getRequiredEnvVar('WALLET_ADDRESS', wallet.address),
+    PRIVATE_KEY: getRequiredEnvVar('PRIVATE_KEY', wallet.privateKey),
+    RPC_URL: getRequiredEnvVar('SOLANA_RPC_URL', rpcUrlFor(profile, CHAINS.SOLANA))
 } as const;
 
 // =================
@@ -140,10 +139,14 @@ class RPCManager {
     }
 
     static async withFallback<T>(operation: (connection: Connection) => Promise<T>): Promise<T> {
+        let lastError: unknown;
         for (let retry = 0; retry < RPC_CONFIG.MAX_RETRIES; retry++) {
             try {
                 return await operation(this.getCurrentConnection());
             } catch (error) {
+                // Failures that another endpoint cannot fix are surfaced immediately
+                if (!isRetryable(error)) throw error;
+                lastError = error;
                 console.warn(`RPC error with endpoint ${RPC_CONFIG.ENDPOINTS[this.currentIndex]}:`, error);
                 this.currentIndex = (this.currentIndex + 1) % RPC_CONFIG.ENDPOINTS.length;
                 if (retry < RPC_CONFIG.MAX_RETRIES - 1) {
@@ -151,7 +154,10 @@ class RPCManager {
                 }
             }
         }
-        throw new Error('All RPC endpoints failed');
+        throw new RpcError('All RPC endpoints failed', {
+            path: RPC_CONFIG.ENDPOINTS.join(', '),
+            cause: lastError
+        });
     }
 }
 
@@ -163,68 +169,34 @@ const connection = RPCManager.getCurrentConnection();
 // =================
 
 class OKXApi {
-    private static readonly BASE_URL = "https://www.okx.com";
-
-    static async getQuote(params: any) {
-        const timestamp = new Date().toISOString();
-        const requestPath = "/api/v5/dex/aggregator/quote";
-        const queryString = "?" + new URLSearchParams(params).toString();
+    private static readonly client = new OkxDexClient({
+        headers: { 'Cookie': 'locale=en-US' }
+    });
 
+    static async getQuote(params: QuoteParams): Promise<QuoteData> {
         console.log('Requesting quote with params:', params);
 
-        const headers = {
-            ...getHeaders(timestamp, "GET", requestPath, queryString),
-            'Cookie': 'locale=en-US'
-        };
-
-        const response = await fetch(`${this.BASE_URL}${requestPath}${queryString}`, {
-            method: "GET",
-            headers
-        });
-
-        const data = await response.json();
+        const data = await this.client.getQuote(params);
         console.log('Quote response:', JSON.stringify(data, null, 2));
 
-        if (!response.ok || data.code !== "0") {
-            throw new Error(`Failed to get quote: ${data.msg || response.statusText}`);
-        }
-
-        if (!data.data?.[0]) {
+        if (!data[0]) {
             throw new Error(`No quote data available: ${JSON.stringify(data)}`);
         }
 
-        return data.data[0];
+        return data[0];
     }
 
-    static async getSwapTransaction(params: any): Promise<any> {
-        const timestamp = new Date().toISOString();
-        const requestPath = "/api/v5/dex/aggregator/swap";  // Changed from swap-instruction to swap
-        const queryString = "?" + new URLSearchParams(params).toString();
-
+    static async getSwapTransaction(params: SwapParams): Promise<SwapData> {
         console.log('Requesting swap transaction with params:', params);
 
-        const headers = {
-            ...getHeaders(timestamp, "GET", requestPath, queryString),
-            'Cookie': 'locale=en-US'
-        };
-
-        const response = await fetch(`${this.BASE_URL}${requestPath}${queryString}`, {
-            method: "GET",
-            headers
-        });
-
-        const data = await response.json();
+        const data = await this.client.getSwap(params);
         console.log('Swap transaction response:', JSON.stringify(data, null, 2));
 
-        if (!response.ok || data.code !== "0") {
-            throw new Error(`Failed to get swap transaction: ${data.msg || response.statusText}`);
-        }
-
-        if (!data.data?.[0]) {
+        if (!data[0]) {
             throw new Error(`No swap transaction data available: ${JSON.stringify(data)}`);
         }
 
-        return data.data[0];
+        return data[0];
     }
 }
 
@@ -240,11 +212,13 @@ class TWAPExecution {
     ): Promise<TradeChunk[]> {
         const amount = new BN(totalAmount);
         const chunkSize = amount.divn(MEV_PROTECTION.TWAP_INTERVALS);
+        // The last chunk takes the remainder, so the chunks add up to the whole amount
+        const lastChunkSize = amount.sub(chunkSize.muln(MEV_PROTECTION.TWAP_INTERVALS - 1));
 
         return Array(MEV_PROTECTION.TWAP_INTERVALS)
             .fill(null)
-            .map(() => ({
-                amount: chunkSize.toString(),
+            .map((_, index) => ({
+                amount: (index === MEV_PROTECTION.TWAP_INTERVALS - 1 ? lastChunkSize : chunkSize).toString(),
                 fromTokenAddress,
                 toTokenAddress,
                 minAmountOut: "0" // Will be calculated per chunk
@@ -367,8 +341,9 @@ class TransactionBuilder {
 
         } catch (error) {
             console.error("Error building versioned transaction:", error);
+            if (error instanceof OkxDexError) throw error;
             const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
-            throw new Error(`Failed to process transaction data: ${errorMessage}`);
+            throw new SigningError(`Failed to process transaction data: ${errorMessage}`, { cause: error });
         }
     }
 
@@ -396,7 +371,8 @@ class TransactionBuilder {
 // Swap Execution
 // =================
 
-async function executeSwapChunk(chunk: TradeChunk): Promise<string> {
+// Quotes one chunk and builds and signs its transaction
+async function prepareSwapChunk(chunk: TradeChunk): Promise<VersionedTransaction> {
     // Get optimal priority fee
     const priorityFee = await TransactionBuilder.getPriorityFee();
     console.log("Using priority fee:", priorityFee);
@@ -409,7 +385,9 @@ async function executeSwapChunk(chunk: TradeChunk): Promise<string> {
         toTokenAddress: chunk.toTokenAddress,
         slippage: CONFIG.SLIPPAGE,
         priceImpactProtectionPercentage: MEV_PROTECTION.MAX_PRICE_IMPACT,
-        userWalletAddress: ENV.WALLET_ADDRESS
+        userWalletAddress: ENV.WALLET_ADDRESS,
+        feePercent: profile.fees?.feePercent,
+        referrerAddress: profile.fees?.referrer
     };
 
     console.log('Requesting swap with params:', swapParams);
@@ -440,6 +418,11 @@ async function executeSwapChunk(chunk: TradeChunk): Promise<string> {
     );
 
     console.log("Successfully built transaction");
+    return tx;
+}
+
+async function executeSwapChunk(chunk: TradeChunk): Promise<string> {
+    const tx = await prepareSwapChunk(chunk);
 
     // Send transaction with RPC fallback
     const txId = await RPCManager.withFallback(async (conn) => {
@@ -451,36 +434,38 @@ async function executeSwapChunk(chunk: TradeChunk): Promise<string> {
     });
 
     console.log(`Transaction sent: ${txId}`);
-    console.log(`Explorer URL: https://solscan.io/tx/${txId}`);
+    console.log(`Explorer URL: ${explorerTxUrl(CONFIG.CHAIN_ID, txId)}`);
 
     // Get confirmation with RPC fallback
-    const confirmation = await RPCManager.withFallback(async (conn) => {
+    await RPCManager.withFallback(async (conn) => {
         const { blockhash, lastValidBlockHeight } = await conn.getLatestBlockhash();
-        return await conn.confirmTransaction({
+        return await confirmSolanaTransaction(conn, {
             signature: txId,
             blockhash,
             lastValidBlockHeight
         }, 'confirmed');
     });
 
-    if (confirmation.value.err) {
-        throw new Error(`Transaction failed: ${JSON.stringify(confirmation.value.err)}`);
-    }
-
     return txId;
 }
 
+async function simulateSwapChunk(chunk: TradeChunk, tokens: TokenMetadata[]): Promise<SimulationReport> {
+    const tx = await prepareSwapChunk(chunk);
+    return RPCManager.withFallback(
+        conn => simulateSolanaTransaction(conn, tx, new PublicKey(ENV.WALLET_ADDRESS), tokens)
+    );
+}
+
 // =================
 // Main Entry Point
 // =================
 
-async function executeMEVResistantSwap(
+// Validates the tokens and converts the amount, split into TWAP chunks when enabled
+async function planSwap(
     amount: string,
     fromTokenAddress: string,
     toTokenAddress: string
-): Promise<string[]> {
-    console.log("Starting MEV-resistant swap with parameters:");
-    console.log("Amount:", amount);
+): Promise<{ quote: QuoteData; chunks: TradeChunk[] }> {
     console.log("From Token:", fromTokenAddress);
     console.log("To Token:", toTokenAddress);
 
@@ -501,32 +486,71 @@ async function executeMEVResistantSwap(
     }
 
     // Convert amount to proper decimals
-    const rawAmount = new BN(
-        Math.floor(parseFloat(amount) * Math.pow(10, parseInt(quoteData.fromToken.decimal)))
-    ).toString();
+    const rawAmount = parseUnits(amount, Number(quoteData.fromToken.decimal)).toString();
 
     console.log("Amount in base units:", rawAmount);
 
-    // Execute as TWAP if enabled
     if (MEV_PROTECTION.TWAP_ENABLED) {
         console.log("TWAP enabled, splitting trade into chunks...");
-        const chunks = await TWAPExecution.splitTrade(
-            rawAmount,
+        return {
+            quote: quoteData,
+            chunks: await TWAPExecution.splitTrade(rawAmount, fromTokenAddress, toTokenAddress)
+        };
+    }
+
+    return {
+        quote: quoteData,
+        chunks: [{
+            amount: rawAmount,
             fromTokenAddress,
-            toTokenAddress
-        );
+            toTokenAddress,
+            minAmountOut: "0"
+        }]
+    };
+}
+
+async function executeMEVResistantSwap(
+    amount: string,
+    fromTokenAddress: string,
+    toTokenAddress: string
+): Promise<string[]> {
+    console.log("Starting MEV-resistant swap with parameters:");
+    console.log("Amount:", amount);
+    const { chunks } = await planSwap(amount, fromTokenAddress, toTokenAddress);
+
+    // Execute as TWAP if enabled
+    if (MEV_PROTECTION.TWAP_ENABLED) {
         return await TWAPExecution.executeTWAP(chunks);
     }
 
     // Otherwise execute as single transaction
-    const txId = await executeSwapChunk({
-        amount: rawAmount,
-        fromTokenAddress,
-        toTokenAddress,
-        minAmountOut: "0"
-    });
+    return [await executeSwapChunk(chunks[0])];
+}
 
-    return [txId];
+/**
+ * Dry run of executeMEVResistantSwap: every chunk is quoted, built, signed
+ * and simulated but never sent. Chunks are simulated one after another
+ * against current state, without block targeting or delays between them.
+ */
+async function simulateMEVResistantSwap(
+    amount: string,
+    fromTokenAddress: string,
+    toTokenAddress: string
+): Promise<SimulationReport[]> {
+    console.log("Simulating MEV-resistant swap with parameters:");
+    console.log("Amount:", amount);
+    const { quote, chunks } = await planSwap(amount, fromTokenAddress, toTokenAddress);
+    const tokens = [quote.fromToken, quote.toToken].map(token => ({
+        tokenContractAddress: token.tokenContractAddress,
+        symbol: token.tokenSymbol,
+        decimals: Number(token.decimal)
+    }));
+
+    const reports: SimulationReport[] = [];
+    for (const chunk of chunks) {
+        reports.push(await simulateSwapChunk(chunk, tokens));
+    }
+    return reports;
 }
 
 // =================
@@ -535,14 +559,24 @@ async function executeMEVResistantSwap(
 
 async function main() {
     try {
-        const [amount, fromTokenAddress, toTokenAddress] = process.argv.slice(2);
+        const [amount, fromTokenAddress, toTokenAddress] = process.argv.slice(2).filter(arg => !arg.startsWith("--"));
+        const dryRun = process.argv.includes("--dry-run");
 
         if (!amount || !fromTokenAddress || !toTokenAddress) {
-            console.log("Usage: ts-node swap.ts <amount> <fromTokenAddress> <toTokenAddress>");
+            console.log("Usage: ts-node swap.ts <amount> <fromTokenAddress> <toTokenAddress> [--dry-run]");
             console.log("Example: ts-node swap.ts 1.5 11111111111111111111111111111111 EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v");
             process.exit(1);
         }
 
+        if (dryRun) {
+            const reports = await simulateMEVResistantSwap(amount, fromTokenAddress, toTokenAddress);
+            reports.forEach((report, index) => {
+                console.log(`\nChunk ${index + 1}/${reports.length} (dry run, nothing was sent):`);
+                console.log(formatSimulationReport(report));
+            });
+            process.exit(reports.every(report => report.success) ? 0 : 1);
+        }
+
         const txIds = await executeMEVResistantSwap(
             amount,
             fromTokenAddress,
@@ -553,7 +587,7 @@ async function main() {
         console.log("Transaction IDs:", txIds.join(", "));
         console.log("Explorer URLs:");
         txIds.forEach(txId => {
-            console.log(`https://solscan.io/tx/${txId}`);
+            console.log(explorerTxUrl(CONFIG.CHAIN_ID, txId));
         });
         process.exit(0);
 
@@ -571,6 +605,7 @@ if (require.main === module) {
 // Export key functionality
 export {
     executeMEVResistantSwap,
+    simulateMEVResistantSwap,
     OKXApi,
     TransactionBuilder,
     TWAPExecution,
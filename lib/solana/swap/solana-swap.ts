@@ -1,58 +1,54 @@
 // swap.ts
 import base58 from "bs58";
-import BN from "bn.js";
 import * as solanaWeb3 from "@solana/web3.js";
-import { Connection, GetVersionedTransactionConfig } from "@solana/web3.js";
-import cryptoJS from "crypto-js";
+import { Connection } from "@solana/web3.js";
 import dotenv from 'dotenv';
+import { OkxDexClient, SwapParams, TokenMetadata } from '../../client';
+import { CHAINS, explorerTxUrl } from '../../chains';
+import { DEFAULT_SLIPPAGE, loadProfile, rpcUrlFor, walletFor } from '../../config';
+import { TokenRegistry } from '../../token-registry';
+import { InvalidParamError, RpcError, SigningError, isRetryable, withRpcErrors } from '../../errors';
+import { parseUnits } from '../../amount';
+import { confirmTrade, formatTradeReview, reviewSwap } from '../../trade-review';
+import { SimulationReport, formatSimulationReport } from '../../simulation';
+import { confirmSolanaTransaction } from '../solana-errors';
+import { simulateSolanaTransaction } from '../solana-simulation';
 
 dotenv.config();
 
-// Environment variables
-const apiKey = process.env.OKX_API_KEY;
-const secretKey = process.env.OKX_SECRET_KEY;
-const apiPassphrase = process.env.OKX_API_PASSPHRASE;
-const projectId = process.env.OKX_PROJECT_ID;
-const userAddress = process.env.WALLET_ADDRESS;
-const userPrivateKey = process.env.PRIVATE_KEY;
-const solanaRpcUrl = process.env.SOLANA_RPC_URL;
+// Environment variables, else the .okxdexrc profile
+const profile = loadProfile();
+const { address: userAddress, privateKey: userPrivateKey } = walletFor(profile, CHAINS.SOLANA);
+const solanaRpcUrl = rpcUrlFor(profile, CHAINS.SOLANA);
 
 // Constants
-const SOLANA_CHAIN_ID = "501";
-const COMPUTE_UNITS = 300000;
+const SOLANA_CHAIN_ID = CHAINS.SOLANA.chainId;
+const SLIPPAGE = profile.slippage ?? DEFAULT_SLIPPAGE;
 const MAX_RETRIES = 3;
 const INITIAL_RETRY_DELAY = 1000; // 1 second
 const MAX_RETRY_DELAY = 10000; // 10 seconds
 
 const connection = new Connection(`${solanaRpcUrl}`, {
-    confirmTransactionInitialTimeout: 5000
+    confirmTransactionInitialTimeout: 5000,
+    wsEndpoint: process.env.WS_ENDPOINT || undefined
 });
 
-type TransactionStatus = 'confirmed' | 'finalized' | 'processed' | 'dropped' | 'unknown';
+const client = new OkxDexClient();
+const tokens = new TokenRegistry(client);
 
+type TransactionStatus = 'confirmed' | 'finalized' | 'processed' | 'failed' | 'dropped' | 'unknown';
+
+// Status of a sent transaction, searched in the node's history so older signatures are found too
 async function getTransactionStatus(txId: string): Promise<TransactionStatus> {
     try {
-        const confirmedTx: GetVersionedTransactionConfig = {
-            maxSupportedTransactionVersion: 0,
-            commitment: 'confirmed'
-        };
-
-        const finalizedTx: GetVersionedTransactionConfig = {
-            maxSupportedTransactionVersion: 0,
-            commitment: 'finalized'
-        };
-
-
-        if (finalizedTx) return 'finalized';
-        if (confirmedTx) return 'confirmed';
-
-        // Check if transaction is still in memory pool
-        const signatureStatus = await connection.getSignatureStatus(txId);
-        if (signatureStatus.value === null) {
+        const { value } = await connection.getSignatureStatus(txId, { searchTransactionHistory: true });
+        if (value === null) {
             return 'dropped';
         }
-
-        return 'unknown';
+        if (value.err) {
+            return 'failed';
+        }
+        return value.confirmationStatus ?? 'unknown';
     } catch (error) {
         console.error('Error checking transaction status:', error);
         return 'unknown';
@@ -71,101 +67,180 @@ function calculateRetryDelay(retryCount: number): number {
     return Math.min(exponentialDelay + jitter, MAX_RETRY_DELAY);
 }
 
-function getHeaders(timestamp: string, method: string, requestPath: string, queryString = "") {
-    if (!apiKey || !secretKey || !apiPassphrase || !projectId) {
-        throw new Error("Missing required environment variables");
+function convertAmount(amount: string, decimals: number): string {
+    const value = parseUnits(amount, decimals);
+    if (value <= 0n) {
+        throw new InvalidParamError("Amount must be greater than 0");
     }
-
-    const stringToSign = timestamp + method + requestPath + queryString;
-    return {
-        "Content-Type": "application/json",
-        "OK-ACCESS-KEY": apiKey,
-        "OK-ACCESS-SIGN": cryptoJS.enc.Base64.stringify(
-            cryptoJS.HmacSHA256(stringToSign, secretKey)
-        ),
-        "OK-ACCESS-TIMESTAMP": timestamp,
-        "OK-ACCESS-PASSPHRASE": apiPassphrase,
-        "OK-ACCESS-PROJECT": projectId,
-    };
+    return value.toString();
 }
 
-async function getTokenInfo(fromTokenAddress: string, toTokenAddress: string) {
-    const timestamp = new Date().toISOString();
-    const requestPath = "/api/v5/dex/aggregator/quote";
-    const params = {
-        chainId: SOLANA_CHAIN_ID,
-        fromTokenAddress,
-        toTokenAddress,
-        amount: "1000000", // small amount just to get token info
-        slippage: "0.5",
-    };
-
-    const queryString = "?" + new URLSearchParams(params).toString();
-    const headers = getHeaders(timestamp, "GET", requestPath, queryString);
-
-    const response = await fetch(
-        `https://www.okx.com${requestPath}${queryString}`,
-        { method: "GET", headers }
-    );
+// Decodes base58 transaction data from the swap endpoint and signs it with a fresh blockhash
+function signTransaction(
+    transactionData: string,
+    privateKey: string,
+    blockhash: string
+): solanaWeb3.VersionedTransaction | solanaWeb3.Transaction {
+    const decodedTransaction = base58.decode(transactionData);
+    let tx;
 
-    if (!response.ok) {
-        throw new Error(`Failed to get quote: ${await response.text()}`);
+    try {
+        tx = solanaWeb3.VersionedTransaction.deserialize(decodedTransaction);
+        console.log("Successfully created versioned transaction");
+        tx.message.recentBlockhash = blockhash;
+    } catch (e) {
+        console.log("Versioned transaction failed, trying legacy:", e);
+        tx = solanaWeb3.Transaction.from(decodedTransaction);
+        console.log("Successfully created legacy transaction");
+        tx.recentBlockhash = blockhash;
     }
 
-    const data = await response.json();
-    if (data.code !== "0" || !data.data?.[0]) {
-        throw new Error("Failed to get token information");
-    }
+    try {
+        const feePayer = solanaWeb3.Keypair.fromSecretKey(
+            base58.decode(privateKey)
+        );
 
-    const quoteData = data.data[0];
-    return {
-        fromToken: {
-            symbol: quoteData.fromToken.tokenSymbol,
-            decimals: parseInt(quoteData.fromToken.decimal),
-            price: quoteData.fromToken.tokenUnitPrice
-        },
-        toToken: {
-            symbol: quoteData.toToken.tokenSymbol,
-            decimals: parseInt(quoteData.toToken.decimal),
-            price: quoteData.toToken.tokenUnitPrice
+        if (tx instanceof solanaWeb3.VersionedTransaction) {
+            tx.sign([feePayer]);
+        } else {
+            tx.partialSign(feePayer);
         }
-    };
+    } catch (error) {
+        throw new SigningError(`Failed to sign transaction: ${error instanceof Error ? error.message : error}`, {
+            cause: error
+        });
+    }
+
+    return tx;
 }
 
-function convertAmount(amount: string, decimals: number) {
-    try {
-        if (!amount || isNaN(parseFloat(amount))) {
-            throw new Error("Invalid amount");
-        }
-        const value = parseFloat(amount);
-        if (value <= 0) {
-            throw new Error("Amount must be greater than 0");
+// Signs and sends base58 transaction data from the swap endpoint, retrying with a fresh blockhash
+async function executeSwap(transactionData: string, privateKey: string): Promise<string> {
+    let retryCount = 0;
+    let txId: string | undefined;
+    while (retryCount < MAX_RETRIES) {
+        try {
+            if (!transactionData) {
+                throw new Error("Invalid transaction data");
+            }
+
+            const recentBlockHash = await withRpcErrors('getLatestBlockhash', () =>
+                connection.getLatestBlockhash()
+            );
+            console.log("Got blockhash:", recentBlockHash.blockhash);
+
+            const signedTx = signTransaction(transactionData, privateKey, recentBlockHash.blockhash);
+            txId = await withRpcErrors('sendRawTransaction', () =>
+                connection.sendRawTransaction(signedTx.serialize(), {
+                    skipPreflight: false,
+                    maxRetries: MAX_RETRIES
+                })
+            );
+
+            await confirmSolanaTransaction(connection, {
+                signature: txId,
+                blockhash: recentBlockHash.blockhash,
+                lastValidBlockHeight: recentBlockHash.lastValidBlockHeight
+            }, 'confirmed');
+
+            return txId;
+        } catch (error) {
+            console.error(`Attempt ${retryCount + 1} failed:`, error);
+
+            // A transaction that failed on chain, or one that can't be signed, fails the same way when resent
+            if (!isRetryable(error)) {
+                throw error;
+            }
+
+            if (txId) {
+                const status = await getTransactionStatus(txId);
+                console.log(`Transaction status: ${status}`);
+
+                switch (status) {
+                    case 'finalized':
+                    case 'confirmed':
+                        console.log("Transaction confirmed successfully, no retry needed.");
+                        return txId;
+                    case 'failed':
+                        throw new RpcError(`Transaction ${txId} failed on chain`, {
+                            path: 'getSignatureStatus',
+                            retryable: false,
+                            cause: error
+                        });
+                    case 'processed':
+                        console.log("Transaction processed but not confirmed, waiting longer...");
+                        await new Promise(resolve => setTimeout(resolve, 5000)); // Extra wait for confirmation
+                        break;
+                    case 'dropped':
+                        console.log("Transaction dropped, will retry with new blockhash");
+                        break;
+                    case 'unknown':
+                        console.log("Transaction status unknown, proceeding with retry");
+                        break;
+                }
+            }
+
+            retryCount++;
+
+            if (retryCount === MAX_RETRIES) {
+                throw error;
+            }
+
+            const delay = calculateRetryDelay(retryCount);
+            console.log(`Waiting ${delay}ms before retry ${retryCount + 1}/${MAX_RETRIES}...`);
+            await new Promise(resolve => setTimeout(resolve, delay));
         }
-        return new BN(value * Math.pow(10, decimals)).toString();
-    } catch (err) {
-        console.error("Amount conversion error:", err);
-        throw new Error("Invalid amount format");
     }
+
+    throw new Error('Max retries exceeded');
+}
+
+/**
+ * Signs transaction data from the swap endpoint and simulates it without
+ * sending, reporting the wallet's SOL and token balance changes
+ */
+async function simulateSwap(
+    transactionData: string,
+    privateKey: string,
+    tokens: TokenMetadata[] = []
+): Promise<SimulationReport> {
+    if (!transactionData) {
+        throw new Error("Invalid transaction data");
+    }
+
+    const { blockhash } = await withRpcErrors('getLatestBlockhash', () =>
+        connection.getLatestBlockhash()
+    );
+    const tx = signTransaction(transactionData, privateKey, blockhash);
+    const owner = solanaWeb3.Keypair.fromSecretKey(base58.decode(privateKey)).publicKey;
+    return simulateSolanaTransaction(connection, tx, owner, tokens);
 }
 
 async function main() {
     try {
-        const args = process.argv.slice(2);
+        const args = process.argv.slice(2).filter(arg => !arg.startsWith("--"));
+        const yes = process.argv.includes("--yes");
+        const dryRun = process.argv.includes("--dry-run");
         if (args.length < 3) {
-            console.log("Usage: ts-node swap.ts <amount> <fromTokenAddress> <toTokenAddress>");
-            console.log("Example: ts-node swap.ts 1.5 11111111111111111111111111111111 EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v");
+            console.log("Usage: ts-node swap.ts <amount> <fromToken> <toToken> [--yes] [--dry-run]");
+            console.log("Tokens are symbols or addresses, e.g. ts-node swap.ts 1.5 SOL USDC");
             process.exit(1);
         }
 
-        const [amount, fromTokenAddress, toTokenAddress] = args;
+        const [amount, fromQuery, toQuery] = args;
 
         if (!userPrivateKey || !userAddress) {
-            throw new Error("Private key or user address not found");
+            throw new Error("Private key or user address not found; set WALLET_ADDRESS and PRIVATE_KEY or a wallet in the .okxdexrc profile");
         }
 
-        // Get token information
+        // Resolve symbols or addresses; prices come with the swap quote
         console.log("Getting token information...");
-        const tokenInfo = await getTokenInfo(fromTokenAddress, toTokenAddress);
+        const tokenInfo = {
+            fromToken: await tokens.resolve(SOLANA_CHAIN_ID, fromQuery),
+            toToken: await tokens.resolve(SOLANA_CHAIN_ID, toQuery)
+        };
+        const fromTokenAddress = tokenInfo.fromToken.tokenContractAddress;
+        const toTokenAddress = tokenInfo.toToken.tokenContractAddress;
         console.log(`From: ${tokenInfo.fromToken.symbol} (${tokenInfo.fromToken.decimals} decimals)`);
         console.log(`To: ${tokenInfo.toToken.symbol} (${tokenInfo.toToken.decimals} decimals)`);
 
@@ -174,144 +249,46 @@ async function main() {
         console.log(`Amount in ${tokenInfo.fromToken.symbol} base units:`, rawAmount);
 
         // Get swap quote
-        const quoteParams = {
+        const quoteParams: SwapParams = {
             chainId: SOLANA_CHAIN_ID,
             amount: rawAmount,
             fromTokenAddress,
             toTokenAddress,
-            slippage: "0.5",
+            slippage: SLIPPAGE,
             userWalletAddress: userAddress,
-        } as Record<string, string>;
+            feePercent: profile.fees?.feePercent,
+            referrerAddress: profile.fees?.referrer,
+        };
 
         // Get swap data
-        const timestamp = new Date().toISOString();
-        const requestPath = "/api/v5/dex/aggregator/swap";
-        const queryString = "?" + new URLSearchParams(quoteParams).toString();
-        const headers = getHeaders(timestamp, "GET", requestPath, queryString);
-
         console.log("Requesting swap quote...");
-        const response = await fetch(
-            `https://www.okx.com${requestPath}${queryString}`,
-            { method: "GET", headers }
-        );
+        const data = await client.getSwap(quoteParams);
 
-        const data = await response.json();
-        if (data.code !== "0") {
-            throw new Error(`API Error: ${data.msg}`);
+        const swapData = data[0];
+        if (!swapData) {
+            throw new Error("No swap data returned");
         }
 
-        const swapData = data.data[0];
-
-        // Show estimated output and price impact
-        const outputAmount = parseFloat(swapData.routerResult.toTokenAmount) / Math.pow(10, tokenInfo.toToken.decimals);
-        console.log("\nSwap Quote:");
-        console.log(`Input: ${amount} ${tokenInfo.fromToken.symbol} ($${(parseFloat(amount) * parseFloat(tokenInfo.fromToken.price)).toFixed(2)})`);
-        console.log(`Output: ${outputAmount.toFixed(tokenInfo.toToken.decimals)} ${tokenInfo.toToken.symbol} ($${(outputAmount * parseFloat(tokenInfo.toToken.price)).toFixed(2)})`);
-        if (swapData.priceImpactPercentage) {
-            console.log(`Price Impact: ${swapData.priceImpactPercentage}%`);
+        // Show route, minimum output, price impact and fees; --yes skips the prompt
+        console.log();
+        if (dryRun) {
+            // Nothing is sent, so there is nothing to confirm
+            console.log(formatTradeReview(reviewSwap(swapData)));
+            console.log("\nSimulating swap transaction (dry run, nothing is sent)...");
+            const report = await simulateSwap(swapData.tx.data, userPrivateKey, [tokenInfo.fromToken, tokenInfo.toToken]);
+            console.log(formatSimulationReport(report));
+            process.exit(report.success ? 0 : 1);
         }
+        await confirmTrade(reviewSwap(swapData), { yes });
 
         console.log("\nExecuting swap transaction...");
-        let retryCount = 0;
-        let txId;
-        while (retryCount < MAX_RETRIES) {
-            try {
-                if (!swapData || (!swapData.tx && !swapData.data)) {
-                    throw new Error("Invalid swap data structure");
-                }
-
-                const transactionData = swapData.tx?.data || swapData.data;
-                if (!transactionData || typeof transactionData !== 'string') {
-                    throw new Error("Invalid transaction data");
-                }
-
-                const recentBlockHash = await connection.getLatestBlockhash();
-                console.log("Got blockhash:", recentBlockHash.blockhash);
-
-                const decodedTransaction = base58.decode(transactionData);
-                let tx;
-
-                try {
-                    tx = solanaWeb3.VersionedTransaction.deserialize(decodedTransaction);
-                    console.log("Successfully created versioned transaction");
-                    tx.message.recentBlockhash = recentBlockHash.blockhash;
-                } catch (e) {
-                    console.log("Versioned transaction failed, trying legacy:", e);
-                    tx = solanaWeb3.Transaction.from(decodedTransaction);
-                    console.log("Successfully created legacy transaction");
-                    tx.recentBlockhash = recentBlockHash.blockhash;
-                }
-
-                const computeBudgetIx = solanaWeb3.ComputeBudgetProgram.setComputeUnitLimit({
-                    units: COMPUTE_UNITS
-                });
+        const txId = await executeSwap(swapData.tx.data, userPrivateKey);
 
-                const feePayer = solanaWeb3.Keypair.fromSecretKey(
-                    base58.decode(userPrivateKey)
-                );
+        console.log("\nSwap completed successfully!");
+        console.log("Transaction ID:", txId);
+        console.log("Explorer URL:", explorerTxUrl(SOLANA_CHAIN_ID, txId));
 
-                if (tx instanceof solanaWeb3.VersionedTransaction) {
-                    tx.sign([feePayer]);
-                } else {
-                    tx.partialSign(feePayer);
-                }
-
-                txId = await connection.sendRawTransaction(tx.serialize(), {
-                    skipPreflight: false,
-                    maxRetries: MAX_RETRIES
-                });
-
-                const confirmation = await connection.confirmTransaction({
-                    signature: txId,
-                    blockhash: recentBlockHash.blockhash,
-                    lastValidBlockHeight: recentBlockHash.lastValidBlockHeight
-                }, 'confirmed');
-
-                if (confirmation?.value?.err) {
-                    throw new Error(`Transaction failed: ${JSON.stringify(confirmation.value.err)}`);
-                }
-
-                console.log("\nSwap completed successfully!");
-                console.log("Transaction ID:", txId);
-                console.log("Explorer URL:", `https://solscan.io/tx/${txId}`);
-
-                process.exit(0);
-            } catch (error) {
-                console.error(`Attempt ${retryCount + 1} failed:`, error);
-
-                if (txId) {
-                    const status = await getTransactionStatus(txId);
-                    console.log(`Transaction status: ${status}`);
-
-                    switch (status) {
-                        case 'finalized':
-                        case 'confirmed':
-                            console.log("Transaction confirmed successfully, no retry needed.");
-                            process.exit(0);
-                        case 'processed':
-                            console.log("Transaction processed but not confirmed, waiting longer...");
-                            await new Promise(resolve => setTimeout(resolve, 5000)); // Extra wait for confirmation
-                            break;
-                        case 'dropped':
-                            console.log("Transaction dropped, will retry with new blockhash");
-                            break;
-                        case 'unknown':
-                            console.log("Transaction status unknown, proceeding with retry");
-                            break;
-                    }
-                }
-
-                retryCount++;
-
-                if (retryCount === MAX_RETRIES) {
-                    throw error;
-                }
-
-                const delay = calculateRetryDelay(retryCount);
-                console.log(`Waiting ${delay}ms before retry ${retryCount + 1}/${MAX_RETRIES}...`);
-                await new Promise(resolve => setTimeout(resolve, delay));
-            }
-        }
+        process.exit(0);
     } catch (error) {
         console.error("Error:", error instanceof Error ? error.message : "Unknown error");
         process.exit(1);
@@ -320,4 +297,10 @@ async function main() {
 
 if (require.main === module) {
     main();
-}
\ No newline at end of file
+}
+
+export {
+    convertAmount,
+    executeSwap,
+    simulateSwap
+};
@@ -1,26 +1,19 @@
 
 // scripts/get-tokens.ts
-import { getHeaders } from '../../shared';
+import { OkxDexClient } from '../../client';
+import { CHAINS } from '../../chains';
+import { TOKEN_OUTPUT, printOutput } from '../../output';
 
 async function main() {
     try {
+        const client = new OkxDexClient();
         const params = {
-            chainId: '501' // Solana Chain ID
+            chainId: CHAINS.SOLANA.chainId
         };
 
-        const timestamp = new Date().toISOString();
-        const requestPath = "/api/v5/dex/aggregator/all-tokens";
-        const queryString = "?" + new URLSearchParams(params).toString();
-        const headers = getHeaders(timestamp, "GET", requestPath, queryString);
-
-        console.log('Getting Solana tokens...');
-        const response = await fetch(`https://www.okx.com${requestPath}${queryString}`, {
-            method: "GET",
-            headers
-        });
-
-        const data = await response.json();
-        console.log('Tokens response:', JSON.stringify(data, null, 2));
+        console.error('Getting Solana tokens...');
+        const data = await client.getAllTokens(params);
+        printOutput(data, TOKEN_OUTPUT);
     } catch (error) {
         console.error('Script failed:', error);
         process.exit(1);
@@ -1,22 +1,16 @@
 // sui-supported-bridges.ts
-import { getHeaders } from '../../shared';
+import { OkxDexClient } from '../../client';
+import { CHAINS } from '../../chains';
+import { BRIDGE_OUTPUT, printOutput } from '../../output';
 
 async function main() {
     try {
-        const chainId = '784'; // SUI Chain ID
-        const timestamp = new Date().toISOString();
-        const requestPath = "/api/v5/dex/cross-chain/supported/bridges";
-        const queryString = chainId ? `?chainId=${chainId}` : '';
-        const headers = getHeaders(timestamp, "GET", requestPath, queryString);
+        const client = new OkxDexClient();
+        const chainId = CHAINS.SUI.chainId;
 
-        console.log('Getting supported bridges for SUI...');
-        const response = await fetch(`https://www.okx.com${requestPath}${queryString}`, {
-            method: "GET",
-            headers
-        });
-
-        const data = await response.json();
-        console.log('Supported bridges response:', JSON.stringify(data, null, 2));
+        console.error('Getting supported bridges for SUI...');
+        const data = await client.getSupportedBridges({ chainId });
+        printOutput(data, BRIDGE_OUTPUT);
     } catch (error) {
         console.error('Script failed:', error);
         process.exit(1);
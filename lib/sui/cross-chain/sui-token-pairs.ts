@@ -1,25 +1,18 @@
 // sui-bridge-pairs.ts
-import { getHeaders } from '../../shared';
+import { OkxDexClient } from '../../client';
+import { CHAINS } from '../../chains';
+import { TOKEN_PAIR_OUTPUT, printOutput } from '../../output';
 
 async function main() {
     try {
+        const client = new OkxDexClient();
         const params = {
-            fromChainId: '784' // SUI Chain ID
+            fromChainId: CHAINS.SUI.chainId
         };
 
-        const timestamp = new Date().toISOString();
-        const requestPath = "/api/v5/dex/cross-chain/supported/bridge-tokens-pairs";
-        const queryString = "?" + new URLSearchParams(params).toString();
-        const headers = getHeaders(timestamp, "GET", requestPath, queryString);
-
-        console.log('Getting bridge token pairs for SUI...');
-        const response = await fetch(`https://www.okx.com${requestPath}${queryString}`, {
-            method: "GET",
-            headers
-        });
-
-        const data = await response.json();
-        console.log('Bridge pairs response:', JSON.stringify(data, null, 2));
+        console.error('Getting bridge token pairs for SUI...');
+        const data = await client.getBridgeTokenPairs(params);
+        printOutput(data, TOKEN_PAIR_OUTPUT);
     } catch (error) {
         console.error('Script failed:', error);
         process.exit(1);
@@ -0,0 +1,20 @@
+// Key handling shared by the Sui executor and the doctor command
+import { Ed25519Keypair } from '@mysten/sui/keypairs/ed25519';
+
+/**
+ * Address of an Ed25519 private key given as a Bech32 `suiprivkey...` string
+ * or as 32 hex-encoded bytes (with or without 0x), the forms the OKX Sui
+ * wallet accepts
+ */
+export function suiAddressFromPrivateKey(privateKey: string): string {
+    const key = privateKey.trim();
+    if (key.startsWith('suiprivkey')) {
+        return Ed25519Keypair.fromSecretKey(key).toSuiAddress();
+    }
+
+    const hex = key.replace(/^0x/, '');
+    if (!/^[0-9a-fA-F]{64}$/.test(hex)) {
+        throw new Error('expected a suiprivkey... string or 32 hex-encoded bytes');
+    }
+    return Ed25519Keypair.fromSecretKey(Buffer.from(hex, 'hex')).toSuiAddress();
+}
@@ -1,29 +1,22 @@
 // scripts/sui-quote.ts
-import { getHeaders } from '../../shared';
+import { OkxDexClient } from '../../client';
+import { CHAINS } from '../../chains';
+import { QUOTE_OUTPUT, printOutput } from '../../output';
 
 async function main() {
     try {
+        const client = new OkxDexClient();
         const params = {
-            chainId: '784', // SUI Chain ID
+            chainId: CHAINS.SUI.chainId,
             amount: '10000000000',
-            fromTokenAddress: '0x2::sui::SUI',
+            fromTokenAddress: CHAINS.SUI.nativeTokenAddress,
             toTokenAddress: '0xdba34672e30cb065b1f93e3ab55318768fd6fef66c15942c9f7cb846e2f900e7::usdc::USDC',
             slippage: '0.1',
         };
 
-        const timestamp = new Date().toISOString();
-        const requestPath = "/api/v5/dex/aggregator/quote";
-        const queryString = "?" + new URLSearchParams(params).toString();
-        const headers = getHeaders(timestamp, "GET", requestPath, queryString);
-
-        console.log('Getting SUI quote...');
-        const response = await fetch(`https://www.okx.com${requestPath}${queryString}`, {
-            method: "GET",
-            headers
-        });
-
-        const data = await response.json();
-        console.log('Quote response:', JSON.stringify(data, null, 2));
+        console.error('Getting SUI quote...');
+        const data = await client.getQuote(params);
+        printOutput(data, QUOTE_OUTPUT);
     } catch (error) {
         console.error('Script failed:', error);
         process.exit(1);
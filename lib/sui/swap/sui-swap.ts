@@ -1,73 +1,67 @@
 import { SuiWallet } from "@okxweb3/coin-sui";
 import { getFullnodeUrl, SuiClient } from '@mysten/sui/client';
 import { Transaction } from '@mysten/sui/transactions';
+import { normalizeSuiAddress as toCanonicalSuiAddress } from '@mysten/sui/utils';
 import dotenv from 'dotenv';
-import { getHeaders } from '../../shared';
+import { OkxApiResponse, OkxDexClient } from '../../client';
+import { CHAINS, explorerTxUrl } from '../../chains';
+import { DEFAULT_SLIPPAGE, loadProfile, rpcUrlFor, walletFor } from '../../config';
+import { CustomToken, TokenRegistry } from '../../token-registry';
+import { SwapData } from '../../models';
+import { formatUnits, parseUnits } from '../../amount';
+import { confirmTrade, formatTradeReview, reviewSwap } from '../../trade-review';
+import { BalanceChange, SimulationReport, formatChange, formatSimulationReport } from '../../simulation';
+import {
+    ConfirmationTimeoutError,
+    InvalidParamError,
+    RpcError,
+    SigningError,
+    isRetryable,
+    withRpcErrors
+} from '../../errors';
 
 dotenv.config();
 
-// Environment variables
-const userPrivateKey = process.env.PRIVATE_KEY;
-const rawWalletAddress = process.env.WALLET_ADDRESS;
+// Environment variables, else the .okxdexrc profile
+const profile = loadProfile();
+const { address: rawWalletAddress, privateKey: userPrivateKey } = walletFor(profile, CHAINS.SUI);
 
-// Token list (helper)
-const TOKENS = {
-    SUI: "0x2::sui::SUI",
-    USDC: "0xdba34672e30cb065b1f93e3ab55318768fd6fef66c15942c9f7cb846e2f900e7::usdc::USDC"
-} as const;
+// Several bridged coins are listed as USDC; pin native USDC
+const TOKEN_OVERRIDES: CustomToken[] = [{
+    chainId: CHAINS.SUI.chainId,
+    address: "0xdba34672e30cb065b1f93e3ab55318768fd6fef66c15942c9f7cb846e2f900e7::usdc::USDC",
+    symbol: "USDC",
+    decimals: 6
+}];
 
 const CONFIG = {
     MAX_RETRIES: 3,
-    BASE_URL: 'https://www.okx.com',
-    CHAIN_ID: '784',
-    SLIPPAGE: '0.5',
+    CHAIN_ID: CHAINS.SUI.chainId,
+    SLIPPAGE: profile.slippage ?? DEFAULT_SLIPPAGE,
     DEFAULT_GAS_BUDGET: 50000000,
     MIN_GAS_PRICE: 1000
 };
 
 // Validate wallet address
 if (!rawWalletAddress) {
-    throw new Error('WALLET_ADDRESS is required in environment variables');
+    throw new Error('WALLET_ADDRESS is required in environment variables or the .okxdexrc profile');
 }
 
 // Initialize Sui wallet and client
 const wallet = new SuiWallet();
 const client = new SuiClient({
-    url: getFullnodeUrl('mainnet')
+    url: rpcUrlFor(profile, CHAINS.SUI) ?? getFullnodeUrl('mainnet')
 });
+const dexClient = new OkxDexClient();
+const tokens = new TokenRegistry(dexClient, { overrides: TOKEN_OVERRIDES });
 
 // Types
 interface TokenInfo {
     symbol: string;
     decimals: number;
-    price: string;
 }
 
-interface SwapQuoteResponse {
-    code: string;
-    data: [{
-        tx: {
-            data: string;
-            gas?: string;
-        };
-        routerResult: {
-            toTokenAmount: string;
-            fromTokenAmount: string;
-        };
-        fromToken: {
-            tokenSymbol: string;
-            decimal: string;
-            tokenUnitPrice: string;
-        };
-        toToken: {
-            tokenSymbol: string;
-            decimal: string;
-            tokenUnitPrice: string;
-        };
-        priceImpactPercentage?: string;
-    }];
-    msg?: string;
-}
+type SwapQuoteResponse = OkxApiResponse<SwapData[]>;
 
 // Utility function to normalize Sui address
 function normalizeSuiAddress(address: string): string {
@@ -85,50 +79,20 @@ function normalizeSuiAddress(address: string): string {
 const normalizedWalletAddress = normalizeSuiAddress(rawWalletAddress);
 
 
+// Symbol and decimals are cached across runs; prices come with the swap quote
 async function getTokenInfo(fromTokenAddress: string, toTokenAddress: string): Promise<{
     fromToken: TokenInfo;
     toToken: TokenInfo;
 }> {
-    const timestamp = new Date().toISOString();
-    const requestPath = "/api/v5/dex/aggregator/quote";
-    const params = {
-        chainId: CONFIG.CHAIN_ID,
-        fromTokenAddress,
-        toTokenAddress,
-        amount: "1000000",
-        slippage: CONFIG.SLIPPAGE,
-    };
-
-    const queryString = "?" + new URLSearchParams(params).toString();
-    const headers = getHeaders(timestamp, "GET", requestPath, queryString);
-
-    const response = await fetch(
-        `${CONFIG.BASE_URL}${requestPath}${queryString}`,
-        { method: "GET", headers }
-    );
-
-    const data: SwapQuoteResponse = await response.json();
-    if (data.code !== "0" || !data.data?.[0]) {
-        throw new Error("Failed to get token information");
-    }
-
-    const quoteData = data.data[0];
+    const [fromToken, toToken] = await dexClient.getTokenMetadata(CONFIG.CHAIN_ID, fromTokenAddress, toTokenAddress);
     return {
-        fromToken: {
-            symbol: quoteData.fromToken.tokenSymbol,
-            decimals: parseInt(quoteData.fromToken.decimal),
-            price: quoteData.fromToken.tokenUnitPrice
-        },
-        toToken: {
-            symbol: quoteData.toToken.tokenSymbol,
-            decimals: parseInt(quoteData.toToken.decimal),
-            price: quoteData.toToken.tokenUnitPrice
-        }
+        fromToken: { symbol: fromToken.symbol, decimals: fromToken.decimals },
+        toToken: { symbol: toToken.symbol, decimals: toToken.decimals }
     };
 }
 
 async function getSwapQuote(amount: string, fromToken: string, toToken: string) {
-    const params = {
+    const data = await dexClient.getSwap({
         chainId: CONFIG.CHAIN_ID,
         amount: amount,
         fromTokenAddress: fromToken,
@@ -136,126 +100,167 @@ async function getSwapQuote(amount: string, fromToken: string, toToken: string)
         userWalletAddress: normalizedWalletAddress,
         slippage: CONFIG.SLIPPAGE,
         autoSlippage: "true",
-        maxAutoSlippageBps: "100"
-    };
-
-    const timestamp = new Date().toISOString();
-    const path = '/api/v5/dex/aggregator/swap';
-    const query = '?' + new URLSearchParams(
-        Object.entries(params).map(([key, value]) => [key, value.toString()])
-    ).toString();
-
-    const response = await fetch(`${CONFIG.BASE_URL}${path}${query}`, {
-        method: 'GET',
-        headers: getHeaders(timestamp, 'GET', path, query)
+        maxAutoSlippageBps: "100",
+        feePercent: profile.fees?.feePercent,
+        referrerAddress: profile.fees?.referrer
     });
-
-    const data: SwapQuoteResponse = await response.json();
-    if (data.code !== '0' || !data.data?.[0]) {
-        throw new Error(`API Error: ${data.msg || 'Unknown error'}`);
+    if (!data?.[0]) {
+        throw new Error('API Error: No swap data returned');
     }
 
-    return data.data[0];
+    return data[0];
 }
 
 function convertAmount(amount: string, decimals: number): string {
-    try {
-        if (!amount || isNaN(parseFloat(amount))) {
-            throw new Error("Invalid amount");
-        }
-        const value = parseFloat(amount);
-        if (value <= 0) {
-            throw new Error("Amount must be greater than 0");
-        }
-        return (BigInt(Math.floor(value * Math.pow(10, decimals)))).toString();
-    } catch (err) {
-        console.error("Amount conversion error:", err);
-        throw new Error("Invalid amount format");
+    const value = parseUnits(amount, decimals);
+    if (value <= 0n) {
+        throw new InvalidParamError("Amount must be greater than 0");
     }
+    return value.toString();
 }
 
-async function executeSwap(txData: string, privateKey: string) {
-    let retryCount = 0;
+// Builds swap transaction data for the wallet and signs it with the OKX SDK
+async function buildAndSignTransaction(txData: string, privateKey: string): Promise<{ builtTx: Uint8Array; signature: string }> {
+    // Create transaction block
+    const txBlock = Transaction.from(txData);
 
-    while (retryCount < CONFIG.MAX_RETRIES) {
-        try {
-            // Create transaction block
-            const txBlock = Transaction.from(txData);
+    // Set sender
+    txBlock.setSender(normalizedWalletAddress);
 
-            // Set sender
-            txBlock.setSender(normalizedWalletAddress);
+    // Set gas parameters
+    const referenceGasPrice = await withRpcErrors('getReferenceGasPrice', () =>
+        client.getReferenceGasPrice()
+    );
+    txBlock.setGasPrice(BigInt(referenceGasPrice));
+    txBlock.setGasBudget(BigInt(CONFIG.DEFAULT_GAS_BUDGET));
 
-            // Set gas parameters
-            const referenceGasPrice = await client.getReferenceGasPrice();
-            txBlock.setGasPrice(BigInt(referenceGasPrice));
-            txBlock.setGasBudget(BigInt(CONFIG.DEFAULT_GAS_BUDGET));
+    // Build the transaction
+    const builtTx = await withRpcErrors('build', () => txBlock.build({ client }));
 
-            // Build the transaction
-            const builtTx = await txBlock.build({ client });
+    // Convert transaction bytes to base64 for signing
+    const txBytes = Buffer.from(builtTx).toString('base64');
 
-            // Convert transaction bytes to base64 for signing
-            const txBytes = Buffer.from(builtTx).toString('base64');
+    // Sign transaction using OKX SDK
+    const signParams = {
+        privateKey,
+        data: {
+            type: 'raw',
+            data: txBytes
+        }
+    };
 
-            // Sign transaction using OKX SDK
-            const signParams = {
-                privateKey,
-                data: {
-                    type: 'raw',
-                    data: txBytes
-                }
-            };
+    console.log("Signing transaction...");
+    let signedTx;
+    try {
+        signedTx = await wallet.signTransaction(signParams);
+    } catch (error) {
+        throw new SigningError(`Failed to sign transaction: ${error instanceof Error ? error.message : error}`, {
+            cause: error
+        });
+    }
 
-            console.log("Signing transaction...");
-            const signedTx = await wallet.signTransaction(signParams);
+    if (!signedTx || !signedTx.signature) {
+        throw new SigningError("Failed to sign transaction: no signature returned");
+    }
 
-            if (!signedTx || !signedTx.signature) {
-                throw new Error("Failed to sign transaction");
-            }
+    return { builtTx, signature: signedTx.signature };
+}
 
-            // Execute the signed transaction
-            console.log("Executing transaction...");
-            const result = await client.executeTransactionBlock({
-                transactionBlock: builtTx,
-                signature: [signedTx.signature],
+// Waits for a digest's effects; the SDK's timeout becomes ConfirmationTimeoutError
+function waitForConfirmation(digest: string) {
+    return withRpcErrors('waitForTransaction', async () => {
+        try {
+            return await client.waitForTransaction({
+                digest,
                 options: {
                     showEffects: true,
                     showEvents: true,
                 }
             });
+        } catch (error) {
+            if (error instanceof Error && (error.name === 'TimeoutError' || error.name === 'AbortError')) {
+                throw new ConfirmationTimeoutError(digest, error.message, {
+                    path: 'waitForTransaction',
+                    cause: error
+                });
+            }
+            throw error;
+        }
+    });
+}
 
-            if (!result.digest) {
-                throw new Error('Transaction failed: No digest received');
+/**
+ * Builds, signs and executes transaction data from the swap endpoint, then
+ * waits for its effects. Failures before execution are retried from the
+ * start; once the node has returned a digest, retries only poll that digest,
+ * so the swap is never executed twice.
+ */
+async function executeSwap(txData: string, privateKey: string) {
+    let retryCount = 0;
+    let digest: string | undefined;
+    let signature: string | undefined;
+
+    while (retryCount < CONFIG.MAX_RETRIES) {
+        try {
+            if (!digest) {
+                const signed = await buildAndSignTransaction(txData, privateKey);
+                signature = signed.signature;
+
+                // Execute the signed transaction
+                console.log("Executing transaction...");
+                const result = await withRpcErrors('executeTransactionBlock', () =>
+                    client.executeTransactionBlock({
+                        transactionBlock: signed.builtTx,
+                        signature: [signed.signature],
+                        options: {
+                            showEffects: true,
+                            showEvents: true,
+                        }
+                    })
+                );
+
+                if (!result.digest) {
+                    throw new RpcError('Transaction failed: No digest received', { path: 'executeTransactionBlock' });
+                }
+                digest = result.digest;
             }
 
             // Wait for confirmation
             console.log("Waiting for confirmation...");
-            const confirmation = await client.waitForTransaction({
-                digest: result.digest,
-                options: {
-                    showEffects: true,
-                    showEvents: true,
-                }
-            });
+            const confirmation = await waitForConfirmation(digest);
 
-            // Check transaction status
+            // Check transaction status; a transaction that executed and failed is not retried
             const status = confirmation.effects?.status?.status;
             if (status !== 'success') {
-                throw new Error(`Transaction failed with status: ${status}`);
+                throw new RpcError(`Transaction failed with status: ${status}`, {
+                    path: 'waitForTransaction',
+                    retryable: false
+                });
             }
 
             return {
-                txId: result.digest,
+                txId: digest,
                 confirmation,
-                signature: signedTx.signature
+                signature
             };
 
         } catch (error) {
             console.error(`Attempt ${retryCount + 1} failed:`, error);
             retryCount++;
 
-            if (retryCount === CONFIG.MAX_RETRIES) {
+            if (!isRetryable(error)) {
                 throw error;
             }
+            if (retryCount === CONFIG.MAX_RETRIES) {
+                // Retrying the swap from scratch could execute it a second time
+                throw digest
+                    ? new ConfirmationTimeoutError(digest, `Transaction ${digest} was executed but not confirmed; check it before swapping again`, {
+                        path: 'waitForTransaction',
+                        retryable: false,
+                        cause: error
+                    })
+                    : error;
+            }
 
             await new Promise(resolve => setTimeout(resolve, 2000 * retryCount));
         }
@@ -264,24 +269,66 @@ async function executeSwap(txData: string, privateKey: string) {
     throw new Error('Max retries exceeded');
 }
 
+/**
+ * Builds and signs transaction data from the swap endpoint, then dry-runs it
+ * without executing, reporting the wallet's balance changes and events
+ */
+async function simulateSwap(txData: string, privateKey: string): Promise<SimulationReport> {
+    const { builtTx } = await buildAndSignTransaction(txData, privateKey);
+    const result = await withRpcErrors('dryRunTransactionBlock', () =>
+        client.dryRunTransactionBlock({ transactionBlock: builtTx })
+    );
+
+    const walletAddress = toCanonicalSuiAddress(normalizedWalletAddress);
+    const balanceChanges: BalanceChange[] = [];
+    for (const { owner, coinType, amount } of result.balanceChanges) {
+        if (typeof owner !== 'object' || !('AddressOwner' in owner) || toCanonicalSuiAddress(owner.AddressOwner) !== walletAddress) {
+            continue;
+        }
+        const metadata = await withRpcErrors('getCoinMetadata', () => client.getCoinMetadata({ coinType }));
+        balanceChanges.push({
+            symbol: metadata?.symbol ?? coinType,
+            // Without metadata the change is shown in base units
+            change: formatChange(BigInt(amount), metadata?.decimals ?? 0)
+        });
+    }
+
+    const { status, gasUsed } = result.effects;
+    const gas = BigInt(gasUsed.computationCost) + BigInt(gasUsed.storageCost) - BigInt(gasUsed.storageRebate);
+    return {
+        success: status.status === 'success',
+        error: status.error ?? undefined,
+        balanceChanges,
+        logs: result.events.map(event => event.type),
+        gasUsed: `${formatUnits(gas, CHAINS.SUI.nativeDecimals)} ${CHAINS.SUI.nativeSymbol}`
+    };
+}
+
 async function main() {
     try {
-        const args = process.argv.slice(2);
+        const args = process.argv.slice(2).filter(arg => !arg.startsWith("--"));
+        const yes = process.argv.includes("--yes");
+        const dryRun = process.argv.includes("--dry-run");
         if (args.length < 3) {
-            console.log("Usage: ts-node sui-swap.ts <amount> <fromTokenAddress> <toTokenAddress>");
-            console.log("Example: ts-node sui-swap.ts 1.5 0x2::sui::SUI 0xdba...::usdc::USDC");
+            console.log("Usage: ts-node sui-swap.ts <amount> <fromToken> <toToken> [--yes] [--dry-run]");
+            console.log("Tokens are symbols or coin types, e.g. ts-node sui-swap.ts 1.5 SUI USDC");
             process.exit(1);
         }
 
-        const [amount, fromTokenAddress, toTokenAddress] = args;
+        const [amount, fromQuery, toQuery] = args;
 
         if (!userPrivateKey) {
             throw new Error("Private key not found");
         }
 
-        // Get token information
+        // Resolve symbols or addresses
         console.log("Getting token information...");
-        const tokenInfo = await getTokenInfo(fromTokenAddress, toTokenAddress);
+        const tokenInfo = {
+            fromToken: await tokens.resolve(CONFIG.CHAIN_ID, fromQuery),
+            toToken: await tokens.resolve(CONFIG.CHAIN_ID, toQuery)
+        };
+        const fromTokenAddress = tokenInfo.fromToken.tokenContractAddress;
+        const toTokenAddress = tokenInfo.toToken.tokenContractAddress;
         console.log(`From: ${tokenInfo.fromToken.symbol} (${tokenInfo.fromToken.decimals} decimals)`);
         console.log(`To: ${tokenInfo.toToken.symbol} (${tokenInfo.toToken.decimals} decimals)`);
 
@@ -293,14 +340,17 @@ async function main() {
         console.log("Requesting swap quote...");
         const swapData = await getSwapQuote(rawAmount, fromTokenAddress, toTokenAddress);
 
-        // Show estimated output and price impact
-        const outputAmount = parseFloat(swapData.routerResult.toTokenAmount) / Math.pow(10, tokenInfo.toToken.decimals);
-        console.log("\nSwap Quote:");
-        console.log(`Input: ${amount} ${tokenInfo.fromToken.symbol} ($${(parseFloat(amount) * parseFloat(tokenInfo.fromToken.price)).toFixed(2)})`);
-        console.log(`Output: ${outputAmount.toFixed(tokenInfo.toToken.decimals)} ${tokenInfo.toToken.symbol} ($${(outputAmount * parseFloat(tokenInfo.toToken.price)).toFixed(2)})`);
-        if (swapData.priceImpactPercentage) {
-            console.log(`Price Impact: ${swapData.priceImpactPercentage}%`);
+        // Show route, minimum output, price impact and fees; --yes skips the prompt
+        console.log();
+        if (dryRun) {
+            // Nothing is executed, so there is nothing to confirm
+            console.log(formatTradeReview(reviewSwap(swapData)));
+            console.log("\nSimulating swap transaction (dry run, nothing is executed)...");
+            const report = await simulateSwap(swapData.tx.data, userPrivateKey);
+            console.log(formatSimulationReport(report));
+            process.exit(report.success ? 0 : 1);
         }
+        await confirmTrade(reviewSwap(swapData), { yes });
 
         // Execute the swap
         console.log("\nExecuting swap transaction...");
@@ -308,7 +358,7 @@ async function main() {
 
         console.log("\nSwap completed successfully!");
         console.log("Transaction ID:", result.txId);
-        console.log("Explorer URL:", `https://suiscan.xyz/mainnet/tx/${result.txId}`);
+        console.log("Explorer URL:", explorerTxUrl(CONFIG.CHAIN_ID, result.txId));
 
         process.exit(0);
     } catch (error) {
@@ -325,6 +375,7 @@ export {
     getTokenInfo,
     convertAmount,
     executeSwap,
+    simulateSwap,
     getSwapQuote,
     normalizeSuiAddress,
     type TokenInfo,
@@ -0,0 +1,215 @@
+/**
+ * Token lookup by symbol, alias or address
+ *
+ * Seeded per chain from the all-tokens endpoint (cached, see cache.ts) plus
+ * the chain's native token, with user-supplied tokens layered on top. A
+ * symbol shared by several listed tokens is reported as ambiguous rather
+ * than resolved to an arbitrary one; an override for that symbol settles it.
+ */
+
+import fs from 'fs';
+import { OkxDexClient, TokenMetadata } from './client';
+import { getChain, isValidAddress, normalizeAddress } from './chains';
+import { InvalidParamError } from './errors';
+import { SchemaIssue, array, numericString, object, optional, string } from './schema';
+
+export interface TokenEntry extends TokenMetadata {
+    chainId: string;
+    name?: string;
+    aliases?: string[];
+}
+
+export interface CustomToken {
+    chainId: string;
+    address: string;
+    symbol: string;
+    decimals: number;
+    name?: string;
+    /** Extra names the token resolves from, e.g. "USDC.e" */
+    aliases?: string[];
+}
+
+export interface TokenRegistryOptions {
+    /** Tokens that take precedence over the API list for their symbol and aliases */
+    overrides?: CustomToken[];
+}
+
+export class AmbiguousTokenError extends InvalidParamError {
+    constructor(
+        readonly symbol: string,
+        readonly candidates: TokenEntry[]
+    ) {
+        super(
+            `Symbol ${symbol} matches ${candidates.length} tokens on chain ${candidates[0].chainId} ` +
+            `(${candidates.map(token => token.tokenContractAddress).join(', ')}); pass an address or add an override`
+        );
+    }
+}
+
+interface ChainTokens {
+    byAddress: Map<string, TokenEntry>;
+    bySymbol: Map<string, TokenEntry[]>;
+    /** Symbols and aliases pinned by overrides or the native token */
+    pinned: Map<string, TokenEntry>;
+}
+
+export class TokenRegistry {
+    private readonly overrides: CustomToken[];
+    private readonly chains = new Map<string, Promise<ChainTokens>>();
+
+    constructor(
+        private readonly client: OkxDexClient,
+        options: TokenRegistryOptions = {}
+    ) {
+        this.overrides = [...(options.overrides ?? [])];
+    }
+
+    /** Adds an override; chains already loaded pick it up immediately */
+    async addToken(token: CustomToken): Promise<void> {
+        this.overrides.push(token);
+        if (this.chains.has(token.chainId)) {
+            pin(await this.load(token.chainId), toEntry(token));
+        }
+    }
+
+    /**
+     * Resolves a symbol (case-insensitive), alias or address to a token.
+     * Throws AmbiguousTokenError for symbols shared by several tokens and
+     * InvalidParamError for unknown ones.
+     */
+    async resolve(chainId: string, query: string): Promise<TokenEntry> {
+        const tokens = await this.load(chainId);
+
+        if (isValidAddress(chainId, query)) {
+            const listed = tokens.byAddress.get(normalizeAddress(query));
+            if (listed) return listed;
+            const [metadata] = await this.client.getTokenMetadata(chainId, query);
+            return { ...metadata, chainId };
+        }
+
+        const key = query.toUpperCase();
+        const pinned = tokens.pinned.get(key);
+        if (pinned) return pinned;
+
+        const candidates = tokens.bySymbol.get(key) ?? [];
+        if (candidates.length > 1) throw new AmbiguousTokenError(query, candidates);
+        if (candidates.length === 0) {
+            throw new InvalidParamError(`Unknown token ${query} on chain ${chainId}`);
+        }
+        return candidates[0];
+    }
+
+    /** Symbols on the chain that match more than one token and have no override */
+    async conflicts(chainId: string): Promise<Map<string, TokenEntry[]>> {
+        const tokens = await this.load(chainId);
+        return new Map([...tokens.bySymbol].filter(([symbol, entries]) =>
+            entries.length > 1 && !tokens.pinned.has(symbol)
+        ));
+    }
+
+    async list(chainId: string): Promise<TokenEntry[]> {
+        return [...(await this.load(chainId)).byAddress.values()];
+    }
+
+    private load(chainId: string): Promise<ChainTokens> {
+        let loading = this.chains.get(chainId);
+        if (!loading) {
+            loading = this.fetchChain(chainId);
+            // A failed load is retried on the next lookup
+            loading.catch(() => this.chains.delete(chainId));
+            this.chains.set(chainId, loading);
+        }
+        return loading;
+    }
+
+    private async fetchChain(chainId: string): Promise<ChainTokens> {
+        const tokens: ChainTokens = { byAddress: new Map(), bySymbol: new Map(), pinned: new Map() };
+
+        for (const token of await this.client.getAllTokens({ chainId })) {
+            add(tokens, {
+                chainId,
+                tokenContractAddress: token.tokenContractAddress,
+                symbol: token.tokenSymbol,
+                decimals: Number(token.decimals),
+                name: token.tokenName,
+            });
+        }
+
+        // The native symbol always means the native token, never a lookalike
+        const chain = getChain(chainId);
+        const native = tokens.byAddress.get(normalizeAddress(chain.nativeTokenAddress)) ?? {
+            chainId,
+            tokenContractAddress: chain.nativeTokenAddress,
+            symbol: chain.nativeSymbol,
+            decimals: chain.nativeDecimals,
+        };
+        pin(tokens, { ...native, aliases: [chain.nativeSymbol] });
+
+        for (const override of this.overrides.filter(token => token.chainId === chainId)) {
+            pin(tokens, toEntry(override));
+        }
+        return tokens;
+    }
+}
+
+/**
+ * Reads custom tokens from a JSON file holding either an array of tokens or
+ * a token list (`{ "tokens": [...] }`).
+ */
+export async function loadTokenList(filePath: string): Promise<CustomToken[]> {
+    let content: unknown;
+    try {
+        content = JSON.parse(await fs.promises.readFile(filePath, 'utf8'));
+    } catch (error) {
+        throw new InvalidParamError(`Could not read token list ${filePath}: ${(error as Error).message}`);
+    }
+
+    const tokens = Array.isArray(content) ? content : (content as { tokens?: unknown })?.tokens;
+    try {
+        return array(customTokenSchema)(tokens, 'tokens').map(token => ({
+            ...token,
+            chainId: String(token.chainId),
+            decimals: Number(token.decimals),
+        }));
+    } catch (error) {
+        if (error instanceof SchemaIssue) {
+            throw new InvalidParamError(`Invalid token list ${filePath}: ${error.message}`);
+        }
+        throw error;
+    }
+}
+
+const customTokenSchema = object({
+    chainId: numericString,
+    address: string,
+    symbol: string,
+    decimals: numericString,
+    name: optional(string),
+    aliases: optional(array(string)),
+});
+
+function toEntry(token: CustomToken): TokenEntry {
+    return {
+        chainId: token.chainId,
+        tokenContractAddress: token.address,
+        symbol: token.symbol,
+        decimals: token.decimals,
+        name: token.name,
+        aliases: token.aliases,
+    };
+}
+
+function add(tokens: ChainTokens, token: TokenEntry): void {
+    tokens.byAddress.set(normalizeAddress(token.tokenContractAddress), token);
+    const key = token.symbol.toUpperCase();
+    tokens.bySymbol.set(key, [...(tokens.bySymbol.get(key) ?? []), token]);
+}
+
+function pin(tokens: ChainTokens, token: TokenEntry): void {
+    const address = normalizeAddress(token.tokenContractAddress);
+    if (!tokens.byAddress.has(address)) add(tokens, token);
+    tokens.byAddress.set(address, token);
+    for (const name of [token.symbol, ...(token.aliases ?? [])]) {
+        tokens.pinned.set(name.toUpperCase(), token);
+    }
+}
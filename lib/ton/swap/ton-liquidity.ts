@@ -1,26 +1,19 @@
 
 // scripts/get-liquidity.ts
-import { getHeaders } from '../../shared';
+import { OkxDexClient } from '../../client';
+import { CHAINS } from '../../chains';
+import { LIQUIDITY_OUTPUT, printOutput } from '../../output';
 
 async function main() {
     try {
+        const client = new OkxDexClient();
         const params = {
-            chainId: '607' // Ton Chain ID
+            chainId: CHAINS.TON.chainId
         };
 
-        const timestamp = new Date().toISOString();
-        const requestPath = "/api/v5/dex/aggregator/get-liquidity";
-        const queryString = "?" + new URLSearchParams(params).toString();
-        const headers = getHeaders(timestamp, "GET", requestPath, queryString);
-
-        console.log('Getting Ton liquidity sources...');
-        const response = await fetch(`https://www.okx.com${requestPath}${queryString}`, {
-            method: "GET",
-            headers
-        });
-
-        const data = await response.json();
-        console.log('Liquidity sources response:', JSON.stringify(data, null, 2));
+        console.error('Getting Ton liquidity sources...');
+        const data = await client.getLiquidity(params);
+        printOutput(data, LIQUIDITY_OUTPUT);
     } catch (error) {
         console.error('Script failed:', error);
         process.exit(1);
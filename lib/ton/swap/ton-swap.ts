@@ -1,12 +1,15 @@
 // scripts/ton-swap.ts
-import { getHeaders } from '../../shared';
+import { OkxDexClient } from '../../client';
+import { CHAINS } from '../../chains';
+import { SWAP_OUTPUT, printOutput } from '../../output';
 
 async function main() {
     try {
+        const client = new OkxDexClient();
         const params = {
-            chainId: '607', // Ton Chain ID
+            chainId: CHAINS.TON.chainId,
             amount: '10000000000',
-            fromTokenAddress: 'EQAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAM9c', // TON Native Token
+            fromTokenAddress: CHAINS.TON.nativeTokenAddress,
             toTokenAddress: 'EQCxE6mUtQJKFnGfaROTKOt1lZbDiiX1kCixRv7Nw2Id_sDs', // USDC
             userWalletAddress: "UQA88qDUSmU9QpYYOwlwKZ1rmrSPEKVus0zLX56FJxD1cd6l",
             slippage: "0.5",
@@ -14,19 +17,9 @@ async function main() {
             maxAutoSlippageBps: "100"
         };
 
-        const timestamp = new Date().toISOString();
-        const requestPath = "/api/v5/dex/aggregator/swap";
-        const queryString = "?" + new URLSearchParams(params).toString();
-        const headers = getHeaders(timestamp, "GET", requestPath, queryString);
-
-        console.log('Getting Ton quote...');
-        const response = await fetch(`https://www.okx.com${requestPath}${queryString}`, {
-            method: "GET",
-            headers
-        });
-
-        const data = await response.json();
-        console.log('Quote response:', JSON.stringify(data, null, 2));
+        console.error('Getting Ton quote...');
+        const data = await client.getSwap(params);
+        printOutput(data, SWAP_OUTPUT);
     } catch (error) {
         console.error('Script failed:', error);
         process.exit(1);
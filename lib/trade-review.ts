@@ -0,0 +1,169 @@
+/**
+ * Pre-trade review of a swap
+ *
+ * Summarises what a swap will do before it is signed: the route, the minimum
+ * output after slippage, price impact, network fee and token risk flags.
+ * Swaps over the configured limits, or into or out of a honeypot, are
+ * aborted without asking; everything else is confirmed on the terminal
+ * unless the caller passes `yes`.
+ */
+
+import readline from 'readline/promises';
+import chalk from 'chalk';
+import { formatUnits, multiplyDecimals, parseUnits } from './amount';
+import { TradeAbortedError } from './errors';
+import { QuoteData, QuoteToken, SwapData } from './models';
+
+export interface TradeLimits {
+    /** Highest acceptable price impact, in percent */
+    maxPriceImpactPercent?: number;
+    /** Highest acceptable network fee, in USD */
+    maxFeeUsd?: number;
+    /** Highest acceptable buy or sell tax of either token, in percent */
+    maxTaxPercent?: number;
+}
+
+export const DEFAULT_TRADE_LIMITS: TradeLimits = {
+    maxPriceImpactPercent: 5,
+    maxTaxPercent: 10,
+};
+
+export interface TradeSide {
+    /** Amount in token units */
+    amount: string;
+    symbol: string;
+    usd?: string;
+}
+
+export interface TradeReview {
+    input: TradeSide;
+    output: TradeSide;
+    /** Least output accepted after slippage, in token units */
+    minReceived?: string;
+    priceImpactPercent?: string;
+    feeUsd?: string;
+    /** One line per route split, e.g. "100%: SOL → USDC via Raydium (100%)" */
+    route: string[];
+    /** Risks shown to the user that do not abort the swap */
+    warnings: string[];
+    /** Limits the swap exceeds; any of them aborts it */
+    violations: string[];
+}
+
+export interface ConfirmOptions {
+    /** Skip the prompt, e.g. for automation; limits are still enforced */
+    yes?: boolean;
+}
+
+/** Builds the review of a swap response and checks it against the limits */
+export function reviewSwap(swapData: SwapData, limits: TradeLimits = DEFAULT_TRADE_LIMITS): TradeReview {
+    const quote = swapData.routerResult;
+    const { tx } = swapData;
+    const toDecimals = Number(quote.toToken.decimal);
+
+    const minReceivedUnits = tx.minReceiveAmount ?? (tx.slippage ? applySlippage(quote.toTokenAmount, tx.slippage) : undefined);
+    const review: TradeReview = {
+        input: tradeSide(quote.fromTokenAmount, quote.fromToken),
+        output: tradeSide(quote.toTokenAmount, quote.toToken),
+        minReceived: minReceivedUnits === undefined ? undefined : formatUnits(minReceivedUnits, toDecimals),
+        priceImpactPercent: quote.priceImpactPercentage ?? undefined,
+        feeUsd: quote.tradeFee,
+        route: describeRouteSplits(quote),
+        warnings: [],
+        violations: [],
+    };
+
+    const priceImpact = Math.abs(Number(review.priceImpactPercent ?? 0));
+    if (limits.maxPriceImpactPercent !== undefined && priceImpact > limits.maxPriceImpactPercent) {
+        review.violations.push(`price impact ${priceImpact}% is above the ${limits.maxPriceImpactPercent}% limit`);
+    }
+    if (limits.maxFeeUsd !== undefined && Number(review.feeUsd ?? 0) > limits.maxFeeUsd) {
+        review.violations.push(`network fee $${review.feeUsd} is above the $${limits.maxFeeUsd} limit`);
+    }
+
+    for (const token of [quote.fromToken, quote.toToken]) {
+        if (token.isHoneyPot) {
+            review.violations.push(`${token.tokenSymbol} is flagged as a honeypot`);
+        }
+        // taxRate is a fraction, e.g. 0.05 for a 5% tax
+        const taxPercent = Number(multiplyDecimals(token.taxRate ?? '0', '100'));
+        if (taxPercent > 0) {
+            const message = `${token.tokenSymbol} charges a ${taxPercent}% tax`;
+            if (limits.maxTaxPercent !== undefined && taxPercent > limits.maxTaxPercent) {
+                review.violations.push(`${message}, above the ${limits.maxTaxPercent}% limit`);
+            } else {
+                review.warnings.push(message);
+            }
+        }
+    }
+    return review;
+}
+
+export function formatTradeReview(review: TradeReview): string {
+    const side = ({ amount, symbol, usd }: TradeSide) => `${amount} ${symbol}${usd ? chalk.dim(` ($${usd})`) : ''}`;
+    const lines = [
+        chalk.bold('Swap Quote:'),
+        `Input: ${side(review.input)}`,
+        `Output: ${side(review.output)}`,
+        `Minimum Received: ${review.minReceived ? `${review.minReceived} ${review.output.symbol}` : 'unknown'}`,
+        `Price Impact: ${review.priceImpactPercent ? `${review.priceImpactPercent}%` : 'unknown'}`,
+        `Network Fee: ${review.feeUsd ? `$${review.feeUsd}` : 'unknown'}`,
+        'Route:',
+        ...(review.route.length > 0 ? review.route.map(line => `  ${line}`) : ['  (not provided)']),
+        ...review.warnings.map(warning => chalk.yellow(`Warning: ${warning}`)),
+        ...review.violations.map(violation => chalk.red(`Limit exceeded: ${violation}`)),
+    ];
+    return lines.join('\n');
+}
+
+/**
+ * Prints the review and resolves once the swap may be signed. Throws
+ * TradeAbortedError when a limit is exceeded, the user declines, or there
+ * is no terminal to ask on and `yes` is not set.
+ */
+export async function confirmTrade(review: TradeReview, options: ConfirmOptions = {}): Promise<void> {
+    console.log(formatTradeReview(review));
+    if (review.violations.length > 0) {
+        throw new TradeAbortedError(review.violations);
+    }
+    if (options.yes) return;
+    if (!process.stdin.isTTY) {
+        throw new TradeAbortedError(['no terminal to confirm on; pass --yes to skip confirmation']);
+    }
+
+    const prompt = readline.createInterface({ input: process.stdin, output: process.stdout });
+    try {
+        const answer = await prompt.question('\nSign and send this swap? [y/N] ');
+        if (!/^y(es)?$/i.test(answer.trim())) {
+            throw new TradeAbortedError(['declined at the confirmation prompt']);
+        }
+    } finally {
+        prompt.close();
+    }
+}
+
+function tradeSide(amount: string, token: QuoteToken): TradeSide {
+    const units = formatUnits(amount, Number(token.decimal));
+    return {
+        amount: units,
+        symbol: token.tokenSymbol,
+        usd: token.tokenUnitPrice ? multiplyDecimals(units, token.tokenUnitPrice) : undefined,
+    };
+}
+
+// Base units left after deducting slippage (a fraction such as 0.005), rounded down
+function applySlippage(amount: string, slippage: string): string {
+    const scale = 10n ** 18n;
+    return (BigInt(amount) * (scale - parseUnits(slippage, 18, 'up')) / scale).toString();
+}
+
+function describeRouteSplits(quote: QuoteData): string[] {
+    return (quote.dexRouterList ?? []).map(router => {
+        const hops = router.subRouterList.map(hop => {
+            const pair = hop.fromToken && hop.toToken ? `${hop.fromToken.tokenSymbol} → ${hop.toToken.tokenSymbol} ` : '';
+            const dexes = hop.dexProtocol.map(protocol => `${protocol.dexName} (${protocol.percent}%)`).join(', ');
+            return `${pair}via ${dexes}`;
+        });
+        return `${router.routerPercent}%: ${hops.join(', then ')}`;
+    });
+}